@@ -11,25 +11,149 @@ import {
   Text,
   VStack,
 } from "@chakra-ui/react"
-import { useDebounceFn, useGetState, useLocalStorageState } from "ahooks"
-import { useCallback, useEffect, useRef, useState } from "react"
 import {
+  useDebounceFn,
+  useEventListener,
+  useGetState,
+  useLocalStorageState,
+} from "ahooks"
+import { useCallback, useEffect, useMemo, useRef, useState } from "react"
+import {
+  FaFileExport,
   FaFileUpload,
   FaKeyboard,
   FaVideo,
   FaVolumeMute,
   FaVolumeUp,
 } from "react-icons/fa"
-import { MdEdit } from "react-icons/md"
+import {
+  MdAdd,
+  MdCallSplit,
+  MdDelete,
+  MdEdit,
+  MdMergeType,
+  MdRedo,
+  MdUndo,
+} from "react-icons/md"
 import ReactPlayer from "react-player"
 import { Route, BrowserRouter as Router, Routes } from "react-router-dom"
+import {
+  AnkiExportDialog,
+  type AnkiExportOptions,
+  type AnkiExportSource,
+} from "./components/AnkiExportDialog"
+import { AssImportDialog } from "./components/AssImportDialog"
+import { AudioClipPanel } from "./components/AudioClipPanel"
+import { AutoPausePanel } from "./components/AutoPausePanel"
+import { BookmarkControls } from "./components/BookmarkControls"
+import { ClozePanel } from "./components/ClozePanel"
+import { DictationPanel, getAccuracyColor } from "./components/DictationPanel"
 import { EditSubtitleDialog } from "./components/EditSubtitleDialog"
+import { ImportWarningsPanel } from "./components/ImportWarningsPanel"
+import { LibraryManagerDialog } from "./components/LibraryManagerDialog"
+import { LibrarySearchDialog } from "./components/LibrarySearchDialog"
+import { LoopPanel } from "./components/LoopPanel"
+import {
+  MAX_PLAYBACK_RATE,
+  MIN_PLAYBACK_RATE,
+  PlaybackRatePanel,
+} from "./components/PlaybackRatePanel"
+import { ResyncPanel } from "./components/ResyncPanel"
+import { SubtitleSearchBar } from "./components/SubtitleSearchBar"
+import { SubtitleTracksPanel } from "./components/SubtitleTracksPanel"
+import { VideoNameConflictDialog } from "./components/VideoNameConflictDialog"
+import { VocabularyNotebook } from "./components/VocabularyNotebook"
+import { useAutoPause } from "./hooks/useAutoPause"
+import { useCueLoop } from "./hooks/useCueLoop"
+import { useVirtualList } from "./hooks/useVirtualList"
+import type {
+  ClozeData,
+  CueBookmark,
+  CueBookmarks,
+  CueNotes,
+  DictationResults,
+  EditHistory,
+  LibraryTracks,
+  LibraryVideoInfo,
+  Subtitle,
+  SubtitleParseWarning,
+  SubtitleTrack,
+  VideoMeta,
+  VocabularyEntry,
+} from "./types"
+import { alignTracks } from "./utils/alignment"
+import {
+  type AnkiCard,
+  createCueCard,
+  createVocabularyCard,
+  serializeAnkiTSV,
+} from "./utils/anki"
+import {
+  type AssEventSummary,
+  type AssImportOptions,
+  getAssEventSummary,
+} from "./utils/ass"
+import { decodeMediaAudio, encodeWavClip } from "./utils/audio"
+import {
+  deleteSubtitle,
+  insertSubtitleAfter,
+  mergeWithNext,
+  splitSubtitle,
+} from "./utils/cueEditing"
+import { assignCueKeys, assignTrackCueKeys, getCueKey } from "./utils/cueKey"
+import {
+  createCueTimeline,
+  findActiveCueIndexes,
+  findCurrentCueIndex,
+} from "./utils/cueTimeline"
+import { downloadBlob, downloadTextFile, getBaseName } from "./utils/download"
+import { formatBytes, formatFileInfo } from "./utils/format"
+import {
+  type SearchOptions,
+  countMatches,
+  createSearchRegExp,
+  findNextHit,
+  splitByMatches,
+} from "./utils/search"
+import { serializeSRT } from "./utils/srt"
+import {
+  SUBTITLE_FILE_ACCEPT,
+  type SubtitleExportFormat,
+  detectSubtitleFormat,
+  parseSubtitleFile,
+} from "./utils/subtitleFormat"
+import { hasValidTiming, secondsToTimeStr, timeToSeconds } from "./utils/time"
+import { LEGACY_TRACK_ID, createSubtitleTrack } from "./utils/tracks"
+import { computeVideoId } from "./utils/videoId"
+import { serializeVTT } from "./utils/vtt"
+import { type ZipEntry, createZip } from "./utils/zip"
 
 // IndexedDB utility functions
 const DB_NAME = "srt-reading-helper"
 const STORE_NAME = "videos"
 const SUBTITLES_STORE = "subtitles"
-const DB_VERSION = 2
+const HISTORY_STORE = "history"
+const DICTATION_STORE = "dictation"
+const CLOZE_STORE = "cloze"
+const BOOKMARKS_STORE = "bookmarks"
+const NOTES_STORE = "notes"
+// 生词本跨视频共享，删除视频时保留
+const VOCABULARY_STORE = "vocabulary"
+const VIDEO_META_STORE = "videoMeta"
+const DB_VERSION = 10
+// 从这个版本开始视频以内容标识为主键，文件名允许重复
+const CONTENT_ID_DB_VERSION = 9
+
+// 以 videoKey 为主键、随视频一起删除的数据
+const VIDEO_DATA_STORES = [
+  SUBTITLES_STORE,
+  HISTORY_STORE,
+  DICTATION_STORE,
+  CLOZE_STORE,
+  BOOKMARKS_STORE,
+  NOTES_STORE,
+  VIDEO_META_STORE,
+]
 
 const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
@@ -39,49 +163,241 @@ const initDB = (): Promise<IDBDatabase> => {
     request.onsuccess = () => resolve(request.result)
 
     request.onupgradeneeded = (event) => {
-      const db = (event.target as IDBOpenDBRequest).result
+      const { result: db, transaction } = event.target as IDBOpenDBRequest
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         const store = db.createObjectStore(STORE_NAME)
-        store.createIndex("name", "name", { unique: true })
+        store.createIndex("name", "name", { unique: false })
+      } else if (event.oldVersion < CONTENT_ID_DB_VERSION && transaction) {
+        // 旧记录保留原来的文件名主键，启动后由 migrateLegacyVideos 迁移
+        const store = transaction.objectStore(STORE_NAME)
+        if (store.indexNames.contains("name")) {
+          store.deleteIndex("name")
+        }
+        store.createIndex("name", "name", { unique: false })
       }
       if (!db.objectStoreNames.contains(SUBTITLES_STORE)) {
         const store = db.createObjectStore(SUBTITLES_STORE)
         store.createIndex("videoKey", "videoKey", { unique: false })
       }
+      if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+        db.createObjectStore(HISTORY_STORE)
+      }
+      if (!db.objectStoreNames.contains(DICTATION_STORE)) {
+        db.createObjectStore(DICTATION_STORE)
+      }
+      if (!db.objectStoreNames.contains(CLOZE_STORE)) {
+        db.createObjectStore(CLOZE_STORE)
+      }
+      if (!db.objectStoreNames.contains(BOOKMARKS_STORE)) {
+        db.createObjectStore(BOOKMARKS_STORE)
+      }
+      if (!db.objectStoreNames.contains(NOTES_STORE)) {
+        db.createObjectStore(NOTES_STORE)
+      }
+      if (!db.objectStoreNames.contains(VOCABULARY_STORE)) {
+        const store = db.createObjectStore(VOCABULARY_STORE, { keyPath: "id" })
+        store.createIndex("videoKey", "videoKey", { unique: false })
+      }
+      if (!db.objectStoreNames.contains(VIDEO_META_STORE)) {
+        db.createObjectStore(VIDEO_META_STORE)
+      }
     }
   })
 }
 
-const saveVideo = async (file: File): Promise<string> => {
+// 旧版本的记录没有 id，以文件名为主键
+interface StoredVideo {
+  id?: string
+  file: File
+  name: string
+  lastModified: number
+  type: string
+  size: number
+}
+
+const toStoredVideo = (file: File, id: string): StoredVideo => ({
+  id,
+  file,
+  name: file.name,
+  lastModified: file.lastModified,
+  type: file.type,
+  size: file.size,
+})
+
+// 视频以内容标识为主键，见 computeVideoId
+const saveVideo = async (file: File, id: string): Promise<string> => {
   const db = await initDB()
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, "readwrite")
     const store = transaction.objectStore(STORE_NAME)
+    store.put(toStoredVideo(file, id), id)
 
-    // 使用文件名作为唯一标识符
-    const key = `${file.name}`
-    const request = store.put(
-      {
-        file,
-        name: file.name,
-        lastModified: file.lastModified,
-        type: file.type,
-        size: file.size,
-      },
-      key,
-    )
+    // 空间不足时写入请求可能成功，事务在提交时才以 QuotaExceededError 中止
+    transaction.oncomplete = () => resolve(URL.createObjectURL(file))
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
 
-    request.onsuccess = () => {
-      const url = URL.createObjectURL(file)
-      resolve(url)
-    }
+const isQuotaExceededError = (error: unknown) =>
+  error instanceof DOMException && error.name === "QuotaExceededError"
+
+const hasVideo = async (key: string): Promise<boolean> => {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, "readonly")
+    const store = transaction.objectStore(STORE_NAME)
+    const request = store.count(key)
+
+    request.onsuccess = () => resolve(request.result > 0)
     request.onerror = () => reject(request.error)
   })
 }
 
-const saveSubtitles = async (
+const findVideoKeysByName = async (name: string): Promise<string[]> => {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, "readonly")
+    const store = transaction.objectStore(STORE_NAME)
+    const request = store.index("name").getAllKeys(name)
+
+    request.onsuccess = () => resolve(request.result as string[])
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// 目标主键下已有数据时的合并方式：按 cue key 保存的记录逐条合并，目标优先；
+// 字幕、撤销历史等整体数据无法合并，保留目标的
+const mergeVideoRecord = (storeName: string, from: unknown, to: unknown) => {
+  switch (storeName) {
+    case DICTATION_STORE:
+    case BOOKMARKS_STORE:
+    case NOTES_STORE:
+    case VIDEO_META_STORE:
+      return { ...(from as object), ...(to as object) }
+    case CLOZE_STORE: {
+      const fromData = from as ClozeData
+      const toData = to as ClozeData
+      return {
+        markedWords: [
+          ...new Set([...toData.markedWords, ...fromData.markedWords]),
+        ],
+        results: { ...fromData.results, ...toData.results },
+      }
+    }
+    default:
+      return to
+  }
+}
+
+// 把一个视频的附属数据（字幕、笔记、生词等）转移到新的主键下
+const moveVideoData = (
+  transaction: IDBTransaction,
+  fromKey: string,
+  toKey: string,
+) => {
+  for (const storeName of VIDEO_DATA_STORES) {
+    const store = transaction.objectStore(storeName)
+    const fromRequest = store.get(fromKey)
+    const toRequest = store.get(toKey)
+    // 同一事务中的请求按顺序完成，此时两次读取都已有结果
+    toRequest.onsuccess = () => {
+      const from = fromRequest.result
+      const to = toRequest.result
+      if (from === undefined) return
+      if (to !== undefined) {
+        store.put(mergeVideoRecord(storeName, from, to), toKey)
+      } else {
+        store.put(
+          storeName === SUBTITLES_STORE ? { ...from, videoKey: toKey } : from,
+          toKey,
+        )
+      }
+      store.delete(fromKey)
+    }
+  }
+  const cursorRequest = transaction
+    .objectStore(VOCABULARY_STORE)
+    .index("videoKey")
+    .openCursor(fromKey)
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result
+    if (!cursor) return
+    cursor.update({ ...cursor.value, videoKey: toKey })
+    cursor.continue()
+  }
+}
+
+const VIDEO_MOVE_STORES = [STORE_NAME, ...VIDEO_DATA_STORES, VOCABULARY_STORE]
+
+// 用新文件替换已有视频，原视频的字幕等数据转给新文件
+const replaceVideo = async (
+  oldKey: string,
+  file: File,
+  id: string,
+): Promise<string> => {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(VIDEO_MOVE_STORES, "readwrite")
+    const store = transaction.objectStore(STORE_NAME)
+    store.delete(oldKey)
+    store.put(toStoredVideo(file, id), id)
+    moveVideoData(transaction, oldKey, id)
+
+    transaction.oncomplete = () => resolve(URL.createObjectURL(file))
+    transaction.onabort = () => reject(transaction.error)
+  })
+}
+
+/**
+ * 把旧版本以文件名为主键的视频迁移到内容标识主键，附属数据一起转移。
+ * 计算标识需要读取文件，不能在 onupgradeneeded 中完成，所以在启动后执行。
+ * 返回旧主键到新主键的映射。
+ */
+const migrateLegacyVideos = async (): Promise<Record<string, string>> => {
+  const db = await initDB()
+  const legacyVideos = await new Promise<
+    Array<{ key: string; video: StoredVideo }>
+  >((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, "readonly")
+    const store = transaction.objectStore(STORE_NAME)
+    const keysRequest = store.getAllKeys()
+    const valuesRequest = store.getAll()
+
+    transaction.oncomplete = () =>
+      resolve(
+        valuesRequest.result.flatMap((video: StoredVideo, index) =>
+          video.id ? [] : [{ key: keysRequest.result[index] as string, video }],
+        ),
+      )
+    transaction.onerror = () => reject(transaction.error)
+  })
+  if (legacyVideos.length === 0) return {}
+
+  const renamed: Record<string, string> = {}
+  for (const { key, video } of legacyVideos) {
+    const id = await computeVideoId(video.file)
+    // 同样内容的视频已经存在时，旧记录的数据合并过去，旧记录删除
+    const isDuplicate = await hasVideo(id)
+    await new Promise<void>((resolve, reject) => {
+      const transaction = db.transaction(VIDEO_MOVE_STORES, "readwrite")
+      const store = transaction.objectStore(STORE_NAME)
+      store.delete(key)
+      if (!isDuplicate) {
+        store.put({ ...video, id }, id)
+      }
+      moveVideoData(transaction, key, id)
+
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+    })
+    renamed[key] = id
+  }
+  return renamed
+}
+
+const saveSubtitleTracks = async (
   videoKey: string,
-  subtitles: Subtitle[],
+  tracks: SubtitleTrack[],
 ): Promise<void> => {
   const db = await initDB()
   return new Promise((resolve, reject) => {
@@ -90,7 +406,7 @@ const saveSubtitles = async (
     const request = store.put(
       {
         videoKey,
-        subtitles,
+        tracks,
         lastModified: Date.now(),
       },
       videoKey,
@@ -101,124 +417,325 @@ const saveSubtitles = async (
   })
 }
 
-const loadSubtitles = async (videoKey: string): Promise<Subtitle[] | null> => {
+const toSubtitleTracks = (
+  data: { tracks?: SubtitleTrack[]; subtitles?: Subtitle[] } | undefined,
+): SubtitleTrack[] | null => {
+  // 旧数据中的字幕没有 cue key，读取时补上
+  if (data?.tracks) return assignTrackCueKeys(data.tracks)
+  if (data?.subtitles) {
+    // 兼容旧版本：每个视频只有一条字幕
+    return assignTrackCueKeys([
+      { id: LEGACY_TRACK_ID, label: "默认字幕", subtitles: data.subtitles },
+    ])
+  }
+  return null
+}
+
+const loadSubtitleTracks = async (
+  videoKey: string,
+): Promise<SubtitleTrack[] | null> => {
   const db = await initDB()
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(SUBTITLES_STORE, "readonly")
     const store = transaction.objectStore(SUBTITLES_STORE)
     const request = store.get(videoKey)
 
+    request.onsuccess = () => resolve(toSubtitleTracks(request.result))
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// 读取所有视频的字幕轨道，用于全库搜索
+const loadAllSubtitleTracks = async (): Promise<LibraryTracks[]> => {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SUBTITLES_STORE, "readonly")
+    const store = transaction.objectStore(SUBTITLES_STORE)
+    const request = store.getAll()
+
     request.onsuccess = () => {
-      const data = request.result
-      resolve(data?.subtitles || null)
+      resolve(
+        request.result.flatMap((data) => {
+          const tracks = toSubtitleTracks(data)
+          return tracks ? [{ videoKey: data.videoKey, tracks }] : []
+        }),
+      )
     }
     request.onerror = () => reject(request.error)
   })
 }
 
-const loadVideo = async (key: string): Promise<string | null> => {
+// 读写以 videoKey 为主键的附属数据
+const saveVideoData = async <T,>(
+  storeName: string,
+  videoKey: string,
+  data: T,
+): Promise<void> => {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, "readwrite")
+    const store = transaction.objectStore(storeName)
+    const request = store.put(data, videoKey)
+
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const loadVideoData = async <T,>(
+  storeName: string,
+  videoKey: string,
+): Promise<T | null> => {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, "readonly")
+    const store = transaction.objectStore(storeName)
+    const request = store.get(videoKey)
+
+    request.onsuccess = () => resolve(request.result ?? null)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const saveEditHistory = (videoKey: string, history: EditHistory) =>
+  saveVideoData(HISTORY_STORE, videoKey, history)
+
+const loadEditHistory = (videoKey: string) =>
+  loadVideoData<EditHistory>(HISTORY_STORE, videoKey)
+
+const saveDictationResults = (videoKey: string, results: DictationResults) =>
+  saveVideoData(DICTATION_STORE, videoKey, results)
+
+const loadDictationResults = (videoKey: string) =>
+  loadVideoData<DictationResults>(DICTATION_STORE, videoKey)
+
+const saveClozeData = (videoKey: string, data: ClozeData) =>
+  saveVideoData(CLOZE_STORE, videoKey, data)
+
+const loadClozeData = (videoKey: string) =>
+  loadVideoData<ClozeData>(CLOZE_STORE, videoKey)
+
+const saveBookmarks = (videoKey: string, bookmarks: CueBookmarks) =>
+  saveVideoData(BOOKMARKS_STORE, videoKey, bookmarks)
+
+const loadBookmarks = (videoKey: string) =>
+  loadVideoData<CueBookmarks>(BOOKMARKS_STORE, videoKey)
+
+const saveNotes = (videoKey: string, notes: CueNotes) =>
+  saveVideoData(NOTES_STORE, videoKey, notes)
+
+const loadNotes = (videoKey: string) =>
+  loadVideoData<CueNotes>(NOTES_STORE, videoKey)
+
+// 合并更新视频的附加信息（时长、最近打开时间）
+const updateVideoMeta = async (
+  videoKey: string,
+  changes: VideoMeta,
+): Promise<void> => {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(VIDEO_META_STORE, "readwrite")
+    const store = transaction.objectStore(VIDEO_META_STORE)
+    const request = store.get(videoKey)
+    request.onsuccess = () => {
+      store.put({ ...request.result, ...changes }, videoKey)
+    }
+
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+const saveVocabularyEntry = async (entry: VocabularyEntry): Promise<void> => {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(VOCABULARY_STORE, "readwrite")
+    const store = transaction.objectStore(VOCABULARY_STORE)
+    const request = store.put(entry)
+
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const listVocabularyEntries = async (): Promise<VocabularyEntry[]> => {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(VOCABULARY_STORE, "readonly")
+    const store = transaction.objectStore(VOCABULARY_STORE)
+    const request = store.getAll()
+
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const deleteVocabularyEntry = async (id: string): Promise<void> => {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(VOCABULARY_STORE, "readwrite")
+    const store = transaction.objectStore(VOCABULARY_STORE)
+    const request = store.delete(id)
+
+    request.onsuccess = () => resolve()
+    request.onerror = () => reject(request.error)
+  })
+}
+
+const loadVideoFile = async (key: string): Promise<File | null> => {
   const db = await initDB()
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, "readonly")
     const store = transaction.objectStore(STORE_NAME)
     const request = store.get(key)
 
-    request.onsuccess = () => {
-      const data = request.result
-      if (data?.file) {
-        const url = URL.createObjectURL(data.file)
-        resolve(url)
-      } else {
-        resolve(null)
-      }
-    }
+    request.onsuccess = () => resolve(request.result?.file ?? null)
     request.onerror = () => reject(request.error)
   })
 }
 
-const listVideos = async (): Promise<
-  Array<{ key: string; name: string; size: number; type: string }>
-> => {
+const loadVideo = async (key: string): Promise<string | null> => {
+  const file = await loadVideoFile(key)
+  return file ? URL.createObjectURL(file) : null
+}
+
+// 从存储的媒体中截取每张卡片的音频，同一视频只解码一次
+const createAnkiAudioFiles = async (
+  cards: AnkiCard[],
+  padding: number,
+): Promise<ZipEntry[]> => {
+  const files: ZipEntry[] = []
+  const fileNames = new Set<string>()
+  const videoKeys = new Set(cards.map((card) => card.audio?.videoKey))
+  for (const videoKey of videoKeys) {
+    if (!videoKey) continue
+    const file = await loadVideoFile(videoKey)
+    if (!file) continue
+    const buffer = await decodeMediaAudio(file)
+    for (const { audio } of cards) {
+      if (audio?.videoKey !== videoKey || fileNames.has(audio.fileName)) {
+        continue
+      }
+      fileNames.add(audio.fileName)
+      const wav = encodeWavClip(
+        buffer,
+        timeToSeconds(audio.startTime) - padding,
+        timeToSeconds(audio.endTime) + padding,
+      )
+      files.push({
+        name: `media/${audio.fileName}`,
+        data: new Uint8Array(await wav.arrayBuffer()),
+      })
+    }
+  }
+  return files
+}
+
+// 视频列表中的一项，不含文件本身
+interface VideoListItem {
+  key: string
+  name: string
+  size: number
+  type: string
+  lastModified: number
+}
+
+const listVideos = async (): Promise<VideoListItem[]> => {
   const db = await initDB()
   return new Promise((resolve, reject) => {
     const transaction = db.transaction(STORE_NAME, "readonly")
     const store = transaction.objectStore(STORE_NAME)
-    const request = store.getAll()
+    const keysRequest = store.getAllKeys()
+    const valuesRequest = store.getAll()
 
-    request.onsuccess = () => {
-      const videos = request.result.map((data) => ({
-        key: `${data.name}`,
+    transaction.oncomplete = () => {
+      const videos = valuesRequest.result.map((data: StoredVideo, index) => ({
+        key: keysRequest.result[index] as string,
         name: data.name,
         size: data.size,
         type: data.type,
+        lastModified: data.lastModified,
       }))
       resolve(videos)
     }
-    request.onerror = () => reject(request.error)
+    transaction.onerror = () => reject(transaction.error)
   })
 }
 
-const deleteVideo = async (key: string): Promise<void> => {
-  const db = await initDB()
-  return new Promise((resolve, reject) => {
-    const transaction = db.transaction(
-      [STORE_NAME, SUBTITLES_STORE],
-      "readwrite",
-    )
-    const videoStore = transaction.objectStore(STORE_NAME)
-    const subtitlesStore = transaction.objectStore(SUBTITLES_STORE)
-
-    // Delete video
-    const videoRequest = videoStore.delete(key)
-    // Delete associated subtitles
-    const subtitlesRequest = subtitlesStore.delete(key)
-
-    Promise.all([
-      new Promise((res, rej) => {
-        videoRequest.onsuccess = res
-        videoRequest.onerror = rej
-      }),
-      new Promise((res, rej) => {
-        subtitlesRequest.onsuccess = res
-        subtitlesRequest.onerror = rej
-      }),
-    ])
-      .then(() => resolve())
-      .catch(reject)
+// 汇总视频库管理需要的信息：文件大小、时长、字幕数量和最近打开时间
+const loadLibraryInfo = async (): Promise<LibraryVideoInfo[]> => {
+  const [videos, library, metas] = await Promise.all([
+    listVideos(),
+    loadAllSubtitleTracks(),
+    initDB().then(
+      (db) =>
+        new Promise<Map<string, VideoMeta>>((resolve, reject) => {
+          const transaction = db.transaction(VIDEO_META_STORE, "readonly")
+          const store = transaction.objectStore(VIDEO_META_STORE)
+          const keysRequest = store.getAllKeys()
+          const valuesRequest = store.getAll()
+
+          transaction.oncomplete = () =>
+            resolve(
+              new Map(
+                valuesRequest.result.map((meta: VideoMeta, index) => [
+                  keysRequest.result[index] as string,
+                  meta,
+                ]),
+              ),
+            )
+          transaction.onerror = () => reject(transaction.error)
+        }),
+    ),
+  ])
+  const tracksByKey = new Map(
+    library.map(({ videoKey, tracks }) => [videoKey, tracks]),
+  )
+  return videos.map((video) => {
+    const tracks = tracksByKey.get(video.key) ?? []
+    return {
+      ...metas.get(video.key),
+      key: video.key,
+      name: video.name,
+      size: video.size,
+      lastModified: video.lastModified,
+      // 以第一条轨道（主字幕）的条数为准
+      subtitleCount: tracks[0]?.subtitles.length ?? 0,
+      trackCount: tracks.length,
+    }
   })
 }
 
-interface Subtitle {
-  id: number
-  startTime: string
-  endTime: string
-  text: string
-}
+const deleteVideo = async (key: string): Promise<void> => {
+  const db = await initDB()
+  return new Promise((resolve, reject) => {
+    const storeNames = [STORE_NAME, ...VIDEO_DATA_STORES]
+    const transaction = db.transaction(storeNames, "readwrite")
 
-function parseSRT(srtContent: string): Subtitle[] {
-  const subtitles: Subtitle[] = []
-  const blocks = srtContent.trim().split("\n\n")
-
-  for (const block of blocks) {
-    const lines = block.split("\n")
-    if (lines.length >= 3) {
-      const id = Number.parseInt(lines[0])
-      const [startTime, endTime] = lines[1].split(" --> ")
-      const text = lines.slice(2).join("\n")
-
-      subtitles.push({
-        id,
-        startTime,
-        endTime,
-        text,
-      })
+    // Delete video and all associated data
+    for (const storeName of storeNames) {
+      transaction.objectStore(storeName).delete(key)
     }
-  }
 
-  return subtitles
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
 }
 
 const DEFAULT_LEFT_PANEL_WIDTH = 600
+// 循环等需要精确判断字幕结束的功能开启时使用的进度回调间隔（毫秒）
+const PRECISE_PROGRESS_INTERVAL = 100
+const PLAYBACK_RATE_STEP = 0.25
+const EMPTY_SUBTITLES: Subtitle[] = []
+const EMPTY_HISTORY: EditHistory = { past: [], future: [] }
+const EMPTY_CLOZE_DATA: ClozeData = { markedWords: [], results: {} }
+// 每个视频最多保留的撤销步数
+const MAX_HISTORY_LENGTH = 50
+// 撤销历史包含多份完整字幕，连续编辑时停下这么久（毫秒）才写入
+const HISTORY_SAVE_DELAY = 1000
+// 字幕列表项测量前的估计高度（像素）
+const SUBTITLE_ITEM_ESTIMATE_SIZE = 96
+const EMPTY_ASS_SUMMARY: AssEventSummary = { styles: [], layers: [] }
 
 function AppContent() {
   const [videoUrl, setVideoUrl] = useState<string | null>(null)
@@ -229,25 +746,143 @@ function AppContent() {
     null,
   )
   const [isEditDialogOpen, setIsEditDialogOpen] = useState(false)
+  // 插入字幕时编辑框对应的字幕列表，保存后才写入轨道，取消则丢弃
+  const [insertingSubtitles, setInsertingSubtitles] = useState<
+    Subtitle[] | null
+  >(null)
   const [isControlModeEnabled, setIsControlModeEnabled] = useLocalStorageState(
     "isControlModeEnabled",
     {
       defaultValue: true,
     },
   )
-  const [isSubtitlesVisible, setIsSubtitlesVisible] = useState(true)
+  const [hiddenTrackIds, setHiddenTrackIds] = useState<string[]>([])
   const [leftPanelWidth, setLeftPanelWidth] = useLocalStorageState(
     "leftPanelWidth",
     {
       defaultValue: DEFAULT_LEFT_PANEL_WIDTH,
     },
   )
+  const [isCrlfExport, setIsCrlfExport] = useLocalStorageState("isCrlfExport", {
+    defaultValue: false,
+  })
+  const [isNotesExport, setIsNotesExport] = useLocalStorageState(
+    "isNotesExport",
+    {
+      defaultValue: false,
+    },
+  )
   const widthInputRef = useRef<HTMLInputElement>(null)
 
-  const [videos, setVideos] = useState<
-    Array<{ key: string; name: string; size: number; type: string }>
-  >([])
-  const [subtitles, setSubtitles] = useState<Subtitle[]>([])
+  const [videos, setVideos] = useState<VideoListItem[]>([])
+  // 视频主键是内容标识，显示和导出时使用文件名
+  const videoNames = useMemo(
+    () => Object.fromEntries(videos.map((video) => [video.key, video.name])),
+    [videos],
+  )
+  // 同名视频在列表中附上大小和日期以便区分
+  const duplicateVideoNames = useMemo(() => {
+    const names = videos.map((video) => video.name)
+    return new Set(names.filter((name, index) => names.indexOf(name) !== index))
+  }, [videos])
+  const currentVideoName =
+    videoNames[urlState.currentVideoKey] ?? urlState.currentVideoKey
+  const [tracks, setTracks] = useState<SubtitleTrack[]>([])
+  const [history, setHistory] = useState<EditHistory>(EMPTY_HISTORY)
+  const [isDictationMode, setIsDictationMode] = useLocalStorageState(
+    "isDictationMode",
+    {
+      defaultValue: false,
+    },
+  )
+  const [dictationResults, setDictationResults] = useState<DictationResults>({})
+  const [isClozeMode, setIsClozeMode] = useLocalStorageState("isClozeMode", {
+    defaultValue: false,
+  })
+  const [clozeData, setClozeData] = useState<ClozeData>(EMPTY_CLOZE_DATA)
+  const [bookmarks, setBookmarks] = useState<CueBookmarks>({})
+  const [isBookmarkedOnly, setIsBookmarkedOnly] = useState(false)
+  const [notes, setNotes] = useState<CueNotes>({})
+  const [searchOptions, setSearchOptions] = useState<SearchOptions>({
+    query: "",
+    isRegex: false,
+    isCaseSensitive: false,
+  })
+  const searchInputRef = useRef<HTMLInputElement>(null)
+  const [vocabulary, setVocabulary] = useState<VocabularyEntry[]>([])
+  const [isVocabularyOpen, setIsVocabularyOpen] = useState(false)
+  const [isAnkiExportOpen, setIsAnkiExportOpen] = useState(false)
+  const [isLibrarySearchOpen, setIsLibrarySearchOpen] = useState(false)
+  const [isLibraryManagerOpen, setIsLibraryManagerOpen] = useState(false)
+  // 与已有视频同名、等待用户决定如何处理的导入
+  const [pendingVideoImport, setPendingVideoImport] = useState<{
+    file: File
+    id: string
+    existingKey: string
+  } | null>(null)
+  // 导出音频片段时在字幕前后多截取的秒数
+  const [audioClipPadding, setAudioClipPadding] = useLocalStorageState(
+    "audioClipPadding",
+    {
+      defaultValue: 0.25,
+    },
+  )
+  // 缓存当前视频解码后的音频，连续导出多个片段时不必重复解码
+  const decodedAudioRef = useRef<{
+    videoKey: string
+    buffer: AudioBuffer
+  } | null>(null)
+  // 在字幕文本中选中、等待加入生词本的词
+  const [pendingTerm, setPendingTerm] = useState<{
+    term: string
+    subtitle: Subtitle
+  } | null>(null)
+  const subtitles = tracks[0]?.subtitles ?? EMPTY_SUBTITLES
+  const cueTimeline = useMemo(() => createCueTimeline(subtitles), [subtitles])
+  const isPrimaryTrackVisible =
+    tracks.length === 0 || !hiddenTrackIds.includes(tracks[0].id)
+  const visibleSecondaryTracks = tracks
+    .slice(1)
+    .filter((track) => !hiddenTrackIds.includes(track.id))
+  // 只要还有一条轨道可见，就显示字幕列表
+  const isSubtitlesVisible =
+    isPrimaryTrackVisible || visibleSecondaryTracks.length > 0
+  const alignedSecondaryTracks = useMemo(
+    () =>
+      tracks.slice(1).map((track) => ({
+        trackId: track.id,
+        pairs: alignTracks(tracks[0].subtitles, track.subtitles),
+      })),
+    [tracks],
+  )
+  const searchRegExp = useMemo(
+    () => createSearchRegExp(searchOptions),
+    [searchOptions],
+  )
+  // 命中的字幕序号，以及总共命中的次数
+  const searchResult = useMemo(() => {
+    const { regex } = searchRegExp
+    if (!regex) return { hits: [], matchCount: 0 }
+    const hits: number[] = []
+    let matchCount = 0
+    subtitles.forEach((subtitle, index) => {
+      const count = countMatches(subtitle.text, regex)
+      if (count > 0) {
+        hits.push(index)
+        matchCount += count
+      }
+    })
+    return { hits, matchCount }
+  }, [subtitles, searchRegExp])
+  const [pendingAssImport, setPendingAssImport] = useState<{
+    fileName: string
+    content: string
+    summary: AssEventSummary
+    asNewTrack: boolean
+  } | null>(null)
+  const [importWarnings, setImportWarnings] = useState<SubtitleParseWarning[]>(
+    [],
+  )
   const [currentTime, setCurrentTime] = useState(0)
   const [isUserScrolling, setIsUserScrolling] = useGetState(false)
   const scrollTimeoutRef = useRef<number | null>(null)
@@ -258,135 +893,524 @@ function AppContent() {
   const [isMuted, setIsMuted] = useLocalStorageState("isMuted", {
     defaultValue: false,
   })
+  const [playbackRate, setPlaybackRate] = useLocalStorageState("playbackRate", {
+    defaultValue: 1,
+  })
+  const [isSlowReplayEnabled, setIsSlowReplayEnabled] = useLocalStorageState(
+    "isSlowReplayEnabled",
+    {
+      defaultValue: false,
+    },
+  )
+  const [slowReplayRate, setSlowReplayRate] = useLocalStorageState(
+    "slowReplayRate",
+    {
+      defaultValue: 0.75,
+    },
+  )
+  // 慢速重放的字幕结束时间，播放到这里后恢复正常速度
+  const [slowReplayEnd, setSlowReplayEnd] = useState<number | null>(null)
   const subtitlesContainerRef = useRef<HTMLDivElement>(null)
+  const subtitlesListRef = useRef<HTMLDivElement>(null)
   const playerRef = useRef<ReactPlayer>(null)
+  // 切换视频后，播放器就绪时要跳转到的位置
+  const pendingSeekRef = useRef<string | null>(null)
+  const loop = useCueLoop({ subtitles, playerRef, setIsPlaying })
+  const autoPause = useAutoPause({ timeline: cueTimeline, setIsPlaying })
 
   // Load videos list on mount
   useEffect(() => {
-    listVideos()
-      .then((videos) => {
-        setVideos(videos)
-      })
+    migrateLegacyVideos()
       .catch((error) => {
-        console.error("Failed to load videos list:", error)
+        console.error("Failed to migrate legacy videos:", error)
+        return {} as Record<string, string>
       })
-  }, [])
+      .then((renamed) => {
+        // 当前打开的是刚迁移的视频时，切换到新的主键
+        setUrlState((state) =>
+          renamed[state.currentVideoKey]
+            ? { currentVideoKey: renamed[state.currentVideoKey] }
+            : state,
+        )
+
+        listVideos()
+          .then((videos) => {
+            setVideos(videos)
+          })
+          .catch((error) => {
+            console.error("Failed to load videos list:", error)
+          })
+
+        listVocabularyEntries()
+          .then((entries) => {
+            setVocabulary(entries)
+          })
+          .catch((error) => {
+            console.error("Failed to load vocabulary:", error)
+          })
+      })
+  }, [setUrlState])
+
+  const { run: saveEditHistoryDebounced, flush: flushEditHistory } =
+    useDebounceFn(
+      (videoKey: string, history: EditHistory) => {
+        saveEditHistory(videoKey, history).catch((error) => {
+          console.error("Failed to save edit history:", error)
+        })
+      },
+      { wait: HISTORY_SAVE_DELAY },
+    )
+
+  // 关闭页面前写入还没保存的撤销历史
+  useEventListener("pagehide", flushEditHistory)
 
   // Load video from IndexedDB on mount
   useEffect(() => {
+    // 先写入上一个视频还没保存的撤销历史，之后的读取会排在它后面
+    flushEditHistory()
+    // 解码后的音频很大（每小时约 1 GB），切换视频时释放
+    decodedAudioRef.current = null
     if (urlState.currentVideoKey) {
       loadVideo(urlState.currentVideoKey)
         .then((url) => {
           if (url) {
             setVideoUrl(url)
+            return updateVideoMeta(urlState.currentVideoKey, {
+              lastOpenedAt: Date.now(),
+            })
           }
         })
         .catch((error) => {
           console.error("Failed to load video from IndexedDB:", error)
         })
 
-      // Load associated subtitles
-      loadSubtitles(urlState.currentVideoKey)
-        .then((subtitles) => {
-          if (subtitles) {
-            setSubtitles(subtitles)
-          }
+      // Load associated subtitle tracks
+      loadSubtitleTracks(urlState.currentVideoKey)
+        .then((tracks) => {
+          setTracks(tracks ?? [])
         })
         .catch((error) => {
           console.error("Failed to load subtitles from IndexedDB:", error)
         })
+
+      loadEditHistory(urlState.currentVideoKey)
+        .then((history) => {
+          setHistory(history ?? EMPTY_HISTORY)
+        })
+        .catch((error) => {
+          console.error("Failed to load edit history from IndexedDB:", error)
+        })
+
+      loadDictationResults(urlState.currentVideoKey)
+        .then((results) => {
+          setDictationResults(results ?? {})
+        })
+        .catch((error) => {
+          console.error("Failed to load dictation results:", error)
+        })
+
+      loadClozeData(urlState.currentVideoKey)
+        .then((data) => {
+          setClozeData(data ?? EMPTY_CLOZE_DATA)
+        })
+        .catch((error) => {
+          console.error("Failed to load cloze results:", error)
+        })
+
+      loadBookmarks(urlState.currentVideoKey)
+        .then((bookmarks) => {
+          setBookmarks(bookmarks ?? {})
+        })
+        .catch((error) => {
+          console.error("Failed to load bookmarks:", error)
+        })
+
+      loadNotes(urlState.currentVideoKey)
+        .then((notes) => {
+          setNotes(notes ?? {})
+        })
+        .catch((error) => {
+          console.error("Failed to load notes:", error)
+        })
     }
-  }, [urlState.currentVideoKey])
+  }, [urlState.currentVideoKey, flushEditHistory])
+
+  const importVideo = async (file: File, id: string, replaceKey?: string) => {
+    // 替换视频会转移撤销历史，先把还没保存的写入
+    flushEditHistory()
+    try {
+      const url = replaceKey
+        ? await replaceVideo(replaceKey, file, id)
+        : await saveVideo(file, id)
+      setVideoUrl(url)
+      // Refresh videos list
+      const videos = await listVideos()
+      setVideos(videos)
+      // 替换视频时生词的 videoKey 也变了
+      if (replaceKey) {
+        setVocabulary(await listVocabularyEntries())
+      }
+      // Set current video key
+      setUrlState({ currentVideoKey: id })
+    } catch (error) {
+      console.error("Failed to save video:", error)
+      if (isQuotaExceededError(error)) {
+        alert(
+          `存储空间不足，无法保存「${file.name}」（${formatBytes(file.size)}）。请在视频库管理中删除不需要的视频后重试。`,
+        )
+      }
+    }
+  }
 
   const handleVideoImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0]
+    // 允许再次选择同一个文件
+    e.target.value = ""
     if (file) {
       try {
-        const url = await saveVideo(file)
-        setVideoUrl(url)
-        // Refresh videos list
-        const videos = await listVideos()
-        setVideos(videos)
-        // Set current video key
-        const key = `${file.name}`
-        setUrlState({ currentVideoKey: key })
+        const id = await computeVideoId(file)
+        // 同一个文件（可能改过名）已经导入过，直接打开
+        if (await hasVideo(id)) {
+          handleVideoSelect(id)
+          return
+        }
+        const [existingKey] = await findVideoKeysByName(file.name)
+        if (existingKey) {
+          setPendingVideoImport({ file, id, existingKey })
+          return
+        }
+        await importVideo(file, id)
+      } catch (error) {
+        console.error("Failed to import video:", error)
+      }
+    }
+  }
+
+  const handleVideoSelect = async (key: string) => {
+    setUrlState({ currentVideoKey: key })
+    setImportWarnings([])
+    loop.stop()
+  }
+
+  const handleVideosDelete = async (keys: string[]) => {
+    // 避免延迟写入的撤销历史在删除之后重新出现
+    flushEditHistory()
+    try {
+      for (const key of keys) {
+        await deleteVideo(key)
+      }
+      // Refresh videos list
+      const videos = await listVideos()
+      setVideos(videos)
+      // Clear current video if deleted
+      if (!keys.includes(urlState.currentVideoKey)) return
+      setUrlState({ currentVideoKey: "" })
+      setVideoUrl(null)
+      setTracks([])
+      setHistory(EMPTY_HISTORY)
+      setDictationResults({})
+      setClozeData(EMPTY_CLOZE_DATA)
+      setBookmarks({})
+      setNotes({})
+      // Clear URL hash when deleting current video
+    } catch (error) {
+      console.error("Failed to delete video:", error)
+    }
+  }
+
+  // 播放器读到时长后记录下来，供视频库管理显示
+  const handleDuration = (duration: number) => {
+    if (!urlState.currentVideoKey || !Number.isFinite(duration)) return
+    updateVideoMeta(urlState.currentVideoKey, { duration }).catch((error) => {
+      console.error("Failed to save video duration:", error)
+    })
+  }
+
+  const applyTracks = async (
+    nextTracks: SubtitleTrack[],
+    nextHistory: EditHistory,
+  ) => {
+    // 新导入的字幕和旧的撤销记录中的字幕可能还没有 cue key
+    const keyedTracks = assignTrackCueKeys(nextTracks)
+    setTracks(keyedTracks)
+    setHistory(nextHistory)
+    if (urlState.currentVideoKey) {
+      await saveSubtitleTracks(urlState.currentVideoKey, keyedTracks)
+      saveEditHistoryDebounced(urlState.currentVideoKey, nextHistory)
+    }
+  }
+
+  // 所有字幕修改都经过这里，修改前的状态会记录到撤销历史中
+  const updateTracks = async (nextTracks: SubtitleTrack[]) => {
+    await applyTracks(nextTracks, {
+      past: [...history.past, tracks].slice(-MAX_HISTORY_LENGTH),
+      future: [],
+    })
+  }
+
+  const handleSubtitleImport = async (
+    e: React.ChangeEvent<HTMLInputElement>,
+    asNewTrack = false,
+  ) => {
+    if (!urlState.currentVideoKey) {
+      alert("Please select a video first")
+      return
+    }
+    const file = e.target.files?.[0]
+    // 允许再次选择同一个文件
+    e.target.value = ""
+    if (file && urlState.currentVideoKey) {
+      try {
+        const text = await file.text()
+        if (detectSubtitleFormat(file.name, text) === "ass") {
+          const summary = getAssEventSummary(text)
+          // 有多个样式或图层时，让用户选择要导入哪些（排除特效、卡拉OK等）
+          if (summary.styles.length > 1 || summary.layers.length > 1) {
+            setPendingAssImport({
+              fileName: file.name,
+              content: text,
+              summary,
+              asNewTrack,
+            })
+            return
+          }
+        }
+        await applyImportedSubtitles(file.name, text, undefined, asNewTrack)
       } catch (error) {
-        console.error("Failed to save video:", error)
+        console.error("Failed to import subtitles:", error)
       }
     }
   }
 
-  const handleVideoSelect = async (key: string) => {
-    setUrlState({ currentVideoKey: key })
-  }
+  const handleAssImportConfirm = async (options: AssImportOptions) => {
+    if (!pendingAssImport) return
+    try {
+      await applyImportedSubtitles(
+        pendingAssImport.fileName,
+        pendingAssImport.content,
+        options,
+        pendingAssImport.asNewTrack,
+      )
+    } catch (error) {
+      console.error("Failed to import subtitles:", error)
+    }
+  }
+
+  const handleTrackVisibilityToggle = (trackId: string) => {
+    setHiddenTrackIds((ids) =>
+      ids.includes(trackId)
+        ? ids.filter((id) => id !== trackId)
+        : [...ids, trackId],
+    )
+  }
+
+  // 隐藏全部轨道；如果已经全部隐藏，则全部显示
+  const handleAllTracksVisibilityToggle = () => {
+    setHiddenTrackIds(isSubtitlesVisible ? tracks.map((track) => track.id) : [])
+  }
+
+  const handleTrackSetPrimary = async (trackId: string) => {
+    const track = tracks.find((t) => t.id === trackId)
+    if (!track) return
+    try {
+      await updateTracks([track, ...tracks.filter((t) => t.id !== trackId)])
+    } catch (error) {
+      console.error("Failed to save subtitle tracks:", error)
+    }
+  }
+
+  const handleTrackDelete = async (trackId: string) => {
+    try {
+      await updateTracks(tracks.filter((track) => track.id !== trackId))
+    } catch (error) {
+      console.error("Failed to save subtitle tracks:", error)
+    }
+  }
+
+  const handleSubtitleExport = (format: SubtitleExportFormat) => {
+    if (!urlState.currentVideoKey || subtitles.length === 0) return
+    const invalidCount = subtitles.filter(
+      (subtitle) => !hasValidTiming(subtitle),
+    ).length
+    if (invalidCount === subtitles.length) {
+      alert("所有字幕的时间都无法识别，无法导出")
+      return
+    }
+    if (
+      invalidCount > 0 &&
+      !window.confirm(
+        `有 ${invalidCount} 条字幕的时间无法识别，导出时将跳过这些字幕，是否继续？`,
+      )
+    ) {
+      return
+    }
+    const baseName = getBaseName(currentVideoName)
+    const getNote = isNotesExport
+      ? (subtitle: Subtitle) => notes[getCueKey(subtitle)]
+      : undefined
+    if (format === "vtt") {
+      downloadTextFile(
+        `${baseName}.vtt`,
+        serializeVTT(subtitles, { getNote }),
+        "text/vtt",
+      )
+    } else {
+      downloadTextFile(
+        `${baseName}.srt`,
+        serializeSRT(subtitles, { crlf: isCrlfExport, getNote }),
+        "application/x-subrip",
+      )
+    }
+  }
+
+  const currentVideoVocabulary = vocabulary.filter(
+    (entry) => entry.videoKey === urlState.currentVideoKey,
+  )
 
-  const handleVideoDelete = async (key: string) => {
-    try {
-      await deleteVideo(key)
-      // Refresh videos list
-      const videos = await listVideos()
-      setVideos(videos)
-      // Clear current video if deleted
-      setUrlState({ currentVideoKey: "" })
-      setVideoUrl(null)
-      setSubtitles([])
-      // Clear URL hash when deleting current video
-    } catch (error) {
-      console.error("Failed to delete video:", error)
+  const bookmarkedIndexes = useMemo(
+    () =>
+      subtitles.flatMap((subtitle, index) =>
+        bookmarks[getCueKey(subtitle)] ? [index] : [],
+      ),
+    [subtitles, bookmarks],
+  )
+
+  const getAnkiCards = (source: AnkiExportSource) => {
+    switch (source) {
+      case "vocabulary":
+        return vocabulary.map((entry) =>
+          createVocabularyCard(
+            entry,
+            videoNames[entry.videoKey] ?? entry.videoKey,
+          ),
+        )
+      case "currentVocabulary":
+        return currentVideoVocabulary.map((entry) =>
+          createVocabularyCard(entry, currentVideoName),
+        )
+      case "bookmarks":
+        return bookmarkedIndexes.map((index) => {
+          const subtitle = subtitles[index]
+          const { difficulty } = bookmarks[getCueKey(subtitle)]
+          // 背面使用其他轨道中对应的字幕（通常是翻译）和笔记
+          const back = [
+            ...alignedSecondaryTracks
+              .flatMap(({ pairs }) => pairs[index].secondary)
+              .map((secondary) => secondary.text),
+            notes[getCueKey(subtitle)] ?? "",
+          ]
+            .filter(Boolean)
+            .join("\n")
+          return createCueCard(
+            subtitle,
+            urlState.currentVideoKey,
+            currentVideoName,
+            back,
+            difficulty ? [difficulty] : [],
+          )
+        })
     }
   }
 
-  const handleSrtImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (!urlState.currentVideoKey) {
-      alert("Please select a video first")
+  const handleAnkiExport = async ({ source, withAudio }: AnkiExportOptions) => {
+    const cards = getAnkiCards(source)
+    const fileName = `${
+      source === "vocabulary" ? "vocabulary" : getBaseName(currentVideoName)
+    }-anki`
+
+    if (!withAudio) {
+      downloadTextFile(`${fileName}.txt`, serializeAnkiTSV(cards))
       return
     }
-    const file = e.target.files?.[0]
-    if (file && urlState.currentVideoKey) {
-      try {
-        const text = await file.text()
-        const parsedSubtitles = parseSRT(text)
-        setSubtitles(parsedSubtitles)
-        // Save subtitles to IndexedDB
-        await saveSubtitles(urlState.currentVideoKey, parsedSubtitles)
-      } catch (error) {
-        console.error("Failed to import subtitles:", error)
-      }
+    try {
+      const audioFiles = await createAnkiAudioFiles(cards, audioClipPadding)
+      // 视频已删除的条目没有音频，卡片上不写 [sound:...]
+      const tsv = serializeAnkiTSV(
+        cards,
+        new Set(audioFiles.map((file) => file.name.replace(/^media\//, ""))),
+      )
+      const zip = createZip([
+        { name: `${fileName}.txt`, data: new TextEncoder().encode(tsv) },
+        ...audioFiles,
+      ])
+      downloadBlob(`${fileName}.zip`, zip)
+    } catch (error) {
+      console.error("Failed to export Anki audio:", error)
+      alert("音频解码失败，请尝试不带音频导出")
     }
   }
 
-  const timeToSeconds = (timeStr: string): number => {
-    const [hours, minutes, seconds] = timeStr.split(":")
-    const [secs, ms] = seconds.split(",")
-    return (
-      Number.parseInt(hours) * 3600 +
-      Number.parseInt(minutes) * 60 +
-      Number.parseInt(secs) +
-      Number.parseInt(ms) / 1000
-    )
+  const getDecodedAudio = async (videoKey: string) => {
+    if (decodedAudioRef.current?.videoKey === videoKey) {
+      return decodedAudioRef.current.buffer
+    }
+    const file = await loadVideoFile(videoKey)
+    if (!file) return null
+    const buffer = await decodeMediaAudio(file)
+    decodedAudioRef.current = { videoKey, buffer }
+    return buffer
   }
 
-  const secondsToTimeStr = (seconds: number): string => {
-    const hours = Math.floor(seconds / 3600)
-    const minutes = Math.floor((seconds % 3600) / 60)
-    const secs = Math.floor(seconds % 60)
-    const ms = Math.floor((seconds % 1) * 1000)
-
-    return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")},${ms.toString().padStart(3, "0")}`
+  const handleAudioClipExport = async (from: number, to: number) => {
+    if (!urlState.currentVideoKey) return
+    const start = Math.max(0, Math.min(from, to))
+    const end = Math.min(subtitles.length - 1, Math.max(from, to))
+    if (start > end) return
+    try {
+      const buffer = await getDecodedAudio(urlState.currentVideoKey)
+      if (!buffer) return
+      const wav = encodeWavClip(
+        buffer,
+        timeToSeconds(subtitles[start].startTime) - audioClipPadding,
+        timeToSeconds(subtitles[end].endTime) + audioClipPadding,
+      )
+      const range = start === end ? `${start + 1}` : `${start + 1}-${end + 1}`
+      downloadBlob(`${getBaseName(currentVideoName)}_${range}.wav`, wav)
+    } catch (error) {
+      console.error("Failed to export audio clip:", error)
+      alert("音频解码失败，浏览器可能不支持该媒体格式")
+    }
   }
 
   const handleProgress = (state: { playedSeconds: number }) => {
     setCurrentTime(state.playedSeconds)
+    if (slowReplayEnd !== null && state.playedSeconds >= slowReplayEnd) {
+      setSlowReplayEnd(null)
+    }
+    // 循环播放时由循环逻辑接管每句结束时的行为
+    if (loop.range) {
+      loop.handleProgress(state.playedSeconds)
+    } else {
+      autoPause.handleProgress(state.playedSeconds)
+    }
   }
 
-  // biome-ignore lint/correctness/useExhaustiveDependencies: <explanation>
+  // 正在播放的所有字幕（可能有重叠）
+  const activeCueIndexes = useMemo(
+    () => findActiveCueIndexes(cueTimeline, currentTime),
+    [cueTimeline, currentTime],
+  )
+
   const getCurrentSubtitles = useCallback(() => {
-    return subtitles.filter(
-      (subtitle) =>
-        currentTime >= timeToSeconds(subtitle.startTime) &&
-        currentTime <= timeToSeconds(subtitle.endTime),
-    )
-  }, [subtitles, currentTime])
+    return activeCueIndexes.map((index) => subtitles[index])
+  }, [subtitles, activeCueIndexes])
+
+  // 列表中显示的字幕序号；只看收藏时只显示收藏的字幕
+  const listIndexes = useMemo(
+    () =>
+      isBookmarkedOnly ? bookmarkedIndexes : subtitles.map((_, index) => index),
+    [subtitles, isBookmarkedOnly, bookmarkedIndexes],
+  )
+  const listKeys = useMemo(
+    () => listIndexes.map((index) => String(subtitles[index].id)),
+    [subtitles, listIndexes],
+  )
+  const virtualList = useVirtualList({
+    containerRef: subtitlesContainerRef,
+    listRef: subtitlesListRef,
+    keys: listKeys,
+    estimateSize: SUBTITLE_ITEM_ESTIMATE_SIZE,
+  })
 
   // Handle user scrolling
   const handleScroll = () => {
@@ -423,6 +1447,9 @@ function AppContent() {
           behavior: "smooth",
           block: "center",
         })
+      } else {
+        // 当前字幕在渲染窗口之外，先跳过去让它渲染出来
+        virtualList.scrollToIndex(listIndexes.indexOf(activeCueIndexes[0]))
       }
     }
   }, [currentTime, isUserScrolling])
@@ -436,127 +1463,271 @@ function AppContent() {
     }
   }, [])
 
-  const handleSeek = useCallback((timeStr: string) => {
-    const timeToSeconds = (timeStr: string): number => {
-      const [hours, minutes, seconds] = timeStr.split(":")
-      const [secs, ms] = seconds.split(",")
-      return (
-        Number.parseInt(hours) * 3600 +
-        Number.parseInt(minutes) * 60 +
-        Number.parseInt(secs) +
-        Number.parseInt(ms) / 1000
-      )
-    }
-    const seconds = timeToSeconds(timeStr)
-    if (playerRef.current) {
-      playerRef.current.seekTo(seconds, "seconds")
-      setIsPlaying(true)
+  const handleSeek = useCallback(
+    (timeStr: string) => {
+      const seconds = timeToSeconds(timeStr)
+      if (playerRef.current) {
+        autoPause.cancelResume()
+        // 跳到别处后不再慢速；R 键重播会在跳转之后重新设置
+        setSlowReplayEnd(null)
+        playerRef.current.seekTo(seconds, "seconds")
+        setIsPlaying(true)
+      }
+    },
+    [autoPause.cancelResume],
+  )
+
+  const handlePlayerReady = () => {
+    if (pendingSeekRef.current) {
+      const timeStr = pendingSeekRef.current
+      pendingSeekRef.current = null
+      handleSeek(timeStr)
     }
-  }, [])
+  }
 
-  // Get current subtitle index
-  const getCurrentSubtitleIndex = useCallback(() => {
-    const timeToSeconds = (timeStr: string): number => {
-      const [hours, minutes, seconds] = timeStr.split(":")
-      const [secs, ms] = seconds.split(",")
-      return (
-        Number.parseInt(hours) * 3600 +
-        Number.parseInt(minutes) * 60 +
-        Number.parseInt(secs) +
-        Number.parseInt(ms) / 1000
-      )
+  const handleTextSelection = (subtitle: Subtitle) => {
+    const term = window.getSelection()?.toString().trim()
+    if (term) {
+      setPendingTerm({ term, subtitle })
     }
+  }
 
-    // First try to find exact match (current time within subtitle range)
-    const exactIndex = subtitles.findIndex(
-      (subtitle) =>
-        currentTime >= timeToSeconds(subtitle.startTime) &&
-        currentTime <= timeToSeconds(subtitle.endTime),
-    )
+  const handleAddVocabulary = async () => {
+    if (!pendingTerm || !urlState.currentVideoKey) return
+    const entry: VocabularyEntry = {
+      id: crypto.randomUUID(),
+      term: pendingTerm.term,
+      sentence: pendingTerm.subtitle.text,
+      videoKey: urlState.currentVideoKey,
+      startTime: pendingTerm.subtitle.startTime,
+      endTime: pendingTerm.subtitle.endTime,
+      createdAt: Date.now(),
+    }
+    setPendingTerm(null)
+    window.getSelection()?.removeAllRanges()
+    try {
+      await saveVocabularyEntry(entry)
+      setVocabulary([...vocabulary, entry])
+    } catch (error) {
+      console.error("Failed to save vocabulary entry:", error)
+    }
+  }
 
-    if (exactIndex !== -1) {
-      return exactIndex
+  const handleDeleteVocabulary = async (entry: VocabularyEntry) => {
+    try {
+      await deleteVocabularyEntry(entry.id)
+      setVocabulary(vocabulary.filter((e) => e.id !== entry.id))
+    } catch (error) {
+      console.error("Failed to delete vocabulary entry:", error)
     }
+  }
 
-    // If no exact match, find the last subtitle that has started (previous subtitle)
-    // Search backwards to find the most recent subtitle that has started
-    for (let i = subtitles.length - 1; i >= 0; i--) {
-      if (timeToSeconds(subtitles[i].startTime) <= currentTime) {
-        return i
-      }
+  const handleJumpToCue = (videoKey: string, startTime: string) => {
+    if (videoKey === urlState.currentVideoKey) {
+      handleSeek(startTime)
+      return
     }
+    // 字幕属于其他视频：先切换视频，等播放器就绪后再跳转
+    pendingSeekRef.current = startTime
+    handleVideoSelect(videoKey)
+  }
 
-    return -1
-  }, [subtitles, currentTime])
+  // Get current subtitle index
+  // 优先取正在播放的字幕，两句之间取上一句
+  const getCurrentSubtitleIndex = useCallback(
+    () => findCurrentCueIndex(cueTimeline, currentTime),
+    [cueTimeline, currentTime],
+  )
 
   // Keyboard controls
-  useEffect(() => {
-    const handleKeyDown = (e: KeyboardEvent) => {
-      if (!isControlModeEnabled || isEditDialogOpen) return
-
-      const currentIndex = getCurrentSubtitleIndex()
-
-      switch (e.key.toLowerCase()) {
-        case "a":
-          e.preventDefault()
-          if (currentIndex > 0) {
-            handleSeek(subtitles[currentIndex - 1].startTime)
-          }
-          break
-        case "d":
-          e.preventDefault()
-          if (currentIndex < subtitles.length - 1) {
-            handleSeek(subtitles[currentIndex + 1].startTime)
-          }
-          break
-        case "r": {
-          e.preventDefault()
-          const currentSubs = getCurrentSubtitles()
-          if (currentSubs.length > 0) {
-            handleSeek(currentSubs[0].startTime)
+  // 处理函数每次渲染都会更新，useEventListener 总是调用最新的一个，监听只注册一次
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (!isControlModeEnabled || isEditDialogOpen) return
+    // 在输入框中打字时不触发快捷键
+    if (
+      e.target instanceof HTMLInputElement ||
+      e.target instanceof HTMLTextAreaElement ||
+      e.target instanceof HTMLSelectElement
+    ) {
+      return
+    }
+    // 带 Ctrl/Cmd/Alt 的组合键（复制、剪切、浏览器快捷键等）交给浏览器处理
+    if (e.ctrlKey || e.metaKey || e.altKey) return
+
+    const currentIndex = getCurrentSubtitleIndex()
+
+    switch (e.key.toLowerCase()) {
+      case "a": {
+        e.preventDefault()
+        // 只看书签时在书签之间跳转
+        const targetIndex = isBookmarkedOnly
+          ? [...bookmarkedIndexes]
+              .reverse()
+              .find((index) => index < currentIndex)
+          : currentIndex - 1
+        if (targetIndex !== undefined && targetIndex >= 0) {
+          handleSeek(subtitles[targetIndex].startTime)
+        }
+        break
+      }
+      case "d": {
+        e.preventDefault()
+        const targetIndex = isBookmarkedOnly
+          ? bookmarkedIndexes.find((index) => index > currentIndex)
+          : currentIndex + 1
+        if (targetIndex !== undefined && targetIndex < subtitles.length) {
+          handleSeek(subtitles[targetIndex].startTime)
+        }
+        break
+      }
+      case "n": {
+        e.preventDefault()
+        const targetIndex = findNextHit(
+          searchResult.hits,
+          currentIndex,
+          e.shiftKey,
+        )
+        if (targetIndex !== undefined) {
+          handleSeek(subtitles[targetIndex].startTime)
+        }
+        break
+      }
+      case "/":
+        e.preventDefault()
+        searchInputRef.current?.focus()
+        break
+      case "b":
+        e.preventDefault()
+        if (currentIndex >= 0) {
+          const subtitle = subtitles[currentIndex]
+          handleBookmarkChange(
+            subtitle,
+            bookmarks[getCueKey(subtitle)]
+              ? null
+              : { rating: 0, difficulty: null, updatedAt: Date.now() },
+          )
+        }
+        break
+      case "r": {
+        e.preventDefault()
+        const currentSubs = getCurrentSubtitles()
+        if (currentSubs.length > 0) {
+          handleSeek(currentSubs[0].startTime)
+          if (isSlowReplayEnabled) {
+            setSlowReplayEnd(timeToSeconds(currentSubs[0].endTime))
           }
-          break
         }
-        case "s":
-          e.preventDefault()
-          setIsPlaying(!isPlaying)
-          break
-        case "h":
-          e.preventDefault()
-          setIsSubtitlesVisible(!isSubtitlesVisible)
-          break
-        case "m":
-          e.preventDefault()
-          handleMuteToggle()
-          break
-        case "arrowup":
-          e.preventDefault()
-          handleVolumeChange(Math.min(1, volume + 0.1))
-          break
-        case "arrowdown":
-          e.preventDefault()
-          handleVolumeChange(Math.max(0, volume - 0.1))
-          break
-        case "e":
-          e.preventDefault()
-          handleEditCurrentSubtitle()
-          break
+        break
       }
+      case "s":
+        e.preventDefault()
+        autoPause.cancelResume()
+        setIsPlaying(!isPlaying)
+        break
+      case "h":
+        e.preventDefault()
+        setHiddenTrackIds(
+          isSubtitlesVisible ? tracks.map((track) => track.id) : [],
+        )
+        break
+      case "m":
+        e.preventDefault()
+        handleMuteToggle()
+        break
+      case "arrowup":
+        e.preventDefault()
+        handleVolumeChange(Math.min(1, volume + 0.1))
+        break
+      case "arrowdown":
+        e.preventDefault()
+        handleVolumeChange(Math.max(0, volume - 0.1))
+        break
+      case "e":
+        e.preventDefault()
+        handleEditCurrentSubtitle()
+        break
+      case "i":
+        e.preventDefault()
+        handleInsertSubtitle(currentIndex, currentTime)
+        break
+      case "k":
+        e.preventDefault()
+        if (currentIndex !== -1) {
+          handleSplitSubtitle(currentIndex)
+        }
+        break
+      case "j":
+        e.preventDefault()
+        if (currentIndex !== -1) {
+          handleMergeSubtitle(currentIndex)
+        }
+        break
+      case "x":
+        e.preventDefault()
+        if (currentIndex !== -1) {
+          handleDeleteSubtitle(currentIndex)
+        }
+        break
+      case "l":
+        e.preventDefault()
+        if (loop.range) {
+          loop.stop()
+        } else if (currentIndex !== -1) {
+          loop.start(currentIndex)
+        }
+        break
+      case "p":
+        e.preventDefault()
+        autoPause.toggle()
+        break
+      case "[":
+        e.preventDefault()
+        handlePlaybackRateChange(playbackRate - PLAYBACK_RATE_STEP)
+        break
+      case "]":
+        e.preventDefault()
+        handlePlaybackRateChange(playbackRate + PLAYBACK_RATE_STEP)
+        break
+      case "=":
+        e.preventDefault()
+        handlePlaybackRateChange(1)
+        break
+      case "t":
+        e.preventDefault()
+        setIsDictationMode(!isDictationMode)
+        break
+      case "c":
+        e.preventDefault()
+        setIsClozeMode(!isClozeMode)
+        break
+      case "z":
+        e.preventDefault()
+        handleUndo()
+        break
+      case "y":
+        e.preventDefault()
+        handleRedo()
+        break
     }
+  }
 
-    window.addEventListener("keydown", handleKeyDown)
-    return () => window.removeEventListener("keydown", handleKeyDown)
-  }, [
-    subtitles,
-    isPlaying,
-    isControlModeEnabled,
-    getCurrentSubtitleIndex,
-    handleSeek,
-    getCurrentSubtitles,
-    isSubtitlesVisible,
-    isEditDialogOpen,
-    volume,
-  ])
+  useEventListener("keydown", handleKeyDown)
+
+  const handleSearchStep = (isBackward: boolean) => {
+    const targetIndex = findNextHit(
+      searchResult.hits,
+      getCurrentSubtitleIndex(),
+      isBackward,
+    )
+    if (targetIndex !== undefined) {
+      handleSeek(subtitles[targetIndex].startTime)
+    }
+  }
+
+  const editingSubtitles = insertingSubtitles ?? subtitles
+  const selectedSubtitleIndex = selectedSubtitle
+    ? editingSubtitles.findIndex((sub) => sub.id === selectedSubtitle.id)
+    : -1
 
   const handleEditSubtitle = (subtitle: Subtitle) => {
     setSelectedSubtitle(subtitle)
@@ -565,6 +1736,7 @@ function AppContent() {
 
   const handleEditCurrentSubtitle = () => {
     // 暂停视频播放
+    autoPause.cancelResume()
     setIsPlaying(false)
 
     const currentSubs = getCurrentSubtitles()
@@ -590,22 +1762,261 @@ function AppContent() {
     }
   }
 
-  const handleSaveSubtitle = async (editedSubtitle: Subtitle) => {
+  const handleSaveSubtitle = async (editedSubtitle: Subtitle, note: string) => {
     if (!urlState.currentVideoKey) return
-
-    const updatedSubtitles = subtitles.map((sub) =>
+    const updatedSubtitles = editingSubtitles.map((sub) =>
       sub.id === editedSubtitle.id ? editedSubtitle : sub,
     )
-    setSubtitles(updatedSubtitles)
+
+    // cue key 不随时间修改变化，书签、听写等记录无需移动
+    const nextNotes = { ...notes }
+    if (note.trim()) {
+      nextNotes[getCueKey(editedSubtitle)] = note.trim()
+    } else {
+      delete nextNotes[getCueKey(editedSubtitle)]
+    }
+    setNotes(nextNotes)
+    try {
+      await saveNotes(urlState.currentVideoKey, nextNotes)
+    } catch (error) {
+      console.error("Failed to save note:", error)
+    }
 
     // Save updated subtitles to IndexedDB
     try {
-      await saveSubtitles(urlState.currentVideoKey, updatedSubtitles)
+      await updatePrimarySubtitles(updatedSubtitles)
     } catch (error) {
       console.error("Failed to save edited subtitles:", error)
     }
   }
 
+  const handleUndo = async () => {
+    const previousTracks = history.past[history.past.length - 1]
+    if (!previousTracks) return
+    try {
+      await applyTracks(previousTracks, {
+        past: history.past.slice(0, -1),
+        future: [tracks, ...history.future],
+      })
+    } catch (error) {
+      console.error("Failed to undo:", error)
+    }
+  }
+
+  const handleRedo = async () => {
+    const [nextTracks, ...future] = history.future
+    if (!nextTracks) return
+    try {
+      await applyTracks(nextTracks, {
+        past: [...history.past, tracks].slice(-MAX_HISTORY_LENGTH),
+        future,
+      })
+    } catch (error) {
+      console.error("Failed to redo:", error)
+    }
+  }
+
+  // 替换主轨道的字幕内容，没有轨道时新建一条
+  const updatePrimarySubtitles = async (
+    nextSubtitles: Subtitle[],
+    label?: string,
+  ) => {
+    const [primaryTrack, ...secondaryTracks] = tracks
+    const nextPrimaryTrack = primaryTrack
+      ? {
+          ...primaryTrack,
+          label: label ?? primaryTrack.label,
+          subtitles: nextSubtitles,
+        }
+      : createSubtitleTrack(label ?? "默认字幕", nextSubtitles)
+    await updateTracks([nextPrimaryTrack, ...secondaryTracks])
+  }
+
+  const applyImportedSubtitles = async (
+    fileName: string,
+    content: string,
+    assOptions?: AssImportOptions,
+    asNewTrack = false,
+  ) => {
+    if (!urlState.currentVideoKey) return
+    const { subtitles: parsedSubtitles, warnings } = parseSubtitleFile(
+      fileName,
+      content,
+      assOptions,
+    )
+    setImportWarnings(warnings)
+    // Save subtitles to IndexedDB
+    if (asNewTrack) {
+      await updateTracks([
+        ...tracks,
+        createSubtitleTrack(fileName, parsedSubtitles),
+      ])
+    } else {
+      // 替换主轨道时沿用对应旧字幕的 cue key，笔记、书签等仍然对应
+      await updatePrimarySubtitles(
+        assignCueKeys(parsedSubtitles, subtitles),
+        fileName,
+      )
+    }
+  }
+
+  const handleDictationSubmit = async (
+    subtitle: Subtitle,
+    answer: string,
+    accuracy: number,
+  ) => {
+    if (!urlState.currentVideoKey) return
+    const cueKey = getCueKey(subtitle)
+    const nextResults = {
+      ...dictationResults,
+      [cueKey]: {
+        answer,
+        accuracy,
+        attempts: (dictationResults[cueKey]?.attempts ?? 0) + 1,
+        updatedAt: Date.now(),
+      },
+    }
+    setDictationResults(nextResults)
+    try {
+      await saveDictationResults(urlState.currentVideoKey, nextResults)
+    } catch (error) {
+      console.error("Failed to save dictation results:", error)
+    }
+  }
+
+  const updateClozeData = async (nextData: ClozeData) => {
+    if (!urlState.currentVideoKey) return
+    setClozeData(nextData)
+    try {
+      await saveClozeData(urlState.currentVideoKey, nextData)
+    } catch (error) {
+      console.error("Failed to save cloze results:", error)
+    }
+  }
+
+  const handleClozeSubmit = (
+    subtitle: Subtitle,
+    correct: number,
+    total: number,
+  ) => {
+    const cueKey = getCueKey(subtitle)
+    const previous = clozeData.results[cueKey]
+    updateClozeData({
+      ...clozeData,
+      results: {
+        ...clozeData.results,
+        [cueKey]: {
+          correct,
+          total,
+          attempts: (previous?.attempts ?? 0) + 1,
+          mistakes: (previous?.mistakes ?? 0) + (total - correct),
+          updatedAt: Date.now(),
+        },
+      },
+    })
+  }
+
+  const handleToggleMarkedWord = (word: string) => {
+    updateClozeData({
+      ...clozeData,
+      markedWords: clozeData.markedWords.includes(word)
+        ? clozeData.markedWords.filter((w) => w !== word)
+        : [...clozeData.markedWords, word],
+    })
+  }
+
+  const handleBookmarkChange = async (
+    subtitle: Subtitle,
+    bookmark: CueBookmark | null,
+  ) => {
+    if (!urlState.currentVideoKey) return
+    const nextBookmarks = { ...bookmarks }
+    if (bookmark) {
+      nextBookmarks[getCueKey(subtitle)] = bookmark
+    } else {
+      delete nextBookmarks[getCueKey(subtitle)]
+    }
+    setBookmarks(nextBookmarks)
+    try {
+      await saveBookmarks(urlState.currentVideoKey, nextBookmarks)
+    } catch (error) {
+      console.error("Failed to save bookmarks:", error)
+    }
+  }
+
+  const handleStructuralEdit = async (nextSubtitles: Subtitle[]) => {
+    try {
+      await updatePrimarySubtitles(nextSubtitles)
+    } catch (error) {
+      console.error("Failed to save subtitles:", error)
+    }
+  }
+
+  // 插入空字幕后直接打开编辑框填写内容，保存时才真正插入
+  const handleInsertSubtitle = (index: number, startSeconds?: number) => {
+    const { subtitles: nextSubtitles, inserted } = insertSubtitleAfter(
+      subtitles,
+      index,
+      startSeconds,
+    )
+    autoPause.cancelResume()
+    setIsPlaying(false)
+    setInsertingSubtitles(nextSubtitles)
+    setSelectedSubtitle(inserted)
+    setIsEditDialogOpen(true)
+  }
+
+  // 在当前播放位置拆分，播放位置不在该字幕内时从中间拆分
+  const handleSplitSubtitle = (index: number) => {
+    handleStructuralEdit(splitSubtitle(subtitles, index, currentTime))
+  }
+
+  // 合并后只保留前一条的 cue key，后一条的笔记接在后面，书签在前一条没有时转过来
+  const handleMergeSubtitle = async (index: number) => {
+    const subtitle = subtitles[index]
+    const next = subtitles[index + 1]
+    if (!subtitle || !next) return
+    const key = getCueKey(subtitle)
+    const nextKey = getCueKey(next)
+    handleStructuralEdit(mergeWithNext(subtitles, index))
+    if (!urlState.currentVideoKey) return
+
+    if (notes[nextKey] !== undefined) {
+      const nextNotes = { ...notes }
+      nextNotes[key] = [notes[key], notes[nextKey]].filter(Boolean).join("\n")
+      delete nextNotes[nextKey]
+      setNotes(nextNotes)
+      try {
+        await saveNotes(urlState.currentVideoKey, nextNotes)
+      } catch (error) {
+        console.error("Failed to save notes:", error)
+      }
+    }
+    if (bookmarks[nextKey] !== undefined) {
+      const nextBookmarks = { ...bookmarks }
+      nextBookmarks[key] ??= bookmarks[nextKey]
+      delete nextBookmarks[nextKey]
+      setBookmarks(nextBookmarks)
+      try {
+        await saveBookmarks(urlState.currentVideoKey, nextBookmarks)
+      } catch (error) {
+        console.error("Failed to save bookmarks:", error)
+      }
+    }
+  }
+
+  const handleDeleteSubtitle = (index: number) => {
+    handleStructuralEdit(deleteSubtitle(subtitles, index))
+  }
+
+  const handleResyncApply = async (resyncedSubtitles: Subtitle[]) => {
+    try {
+      await updatePrimarySubtitles(resyncedSubtitles)
+    } catch (error) {
+      console.error("Failed to save resynced subtitles:", error)
+    }
+  }
+
   const handleConfirmWidth = () => {
     if (widthInputRef.current) {
       setLeftPanelWidth(Number(widthInputRef.current.value))
@@ -621,6 +2032,12 @@ function AppContent() {
     }
   }
 
+  const handlePlaybackRateChange = (rate: number) => {
+    setPlaybackRate(
+      Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate)),
+    )
+  }
+
   const handleMuteToggle = () => {
     setIsMuted(!isMuted)
   }
@@ -659,10 +2076,25 @@ function AppContent() {
                   height="100%"
                   playing={isPlaying}
                   volume={isMuted ? 0 : volume}
+                  playbackRate={
+                    slowReplayEnd !== null ? slowReplayRate : playbackRate
+                  }
                   controls={!isControlModeEnabled}
                   onProgress={handleProgress}
+                  progressInterval={
+                    loop.range || autoPause.isEnabled
+                      ? PRECISE_PROGRESS_INTERVAL
+                      : undefined
+                  }
+                  onReady={handlePlayerReady}
+                  onDuration={handleDuration}
                   onPause={() => setIsPlaying(false)}
-                  onPlay={() => setIsPlaying(true)}
+                  onSeek={autoPause.cancelResume}
+                  onPlay={() => {
+                    // 用户在自动继续之前手动播放，之后的暂停不应被自动继续打断
+                    autoPause.cancelResume()
+                    setIsPlaying(true)
+                  }}
                 />
               ) : (
                 <Flex h="100%" align="center" justify="center">
@@ -743,12 +2175,86 @@ function AppContent() {
                 Import Subtitles
                 <input
                   type="file"
-                  accept=".srt"
-                  onChange={handleSrtImport}
+                  accept={SUBTITLE_FILE_ACCEPT}
+                  onChange={handleSubtitleImport}
                   style={{ display: "none" }}
                 />
               </Button>
             </HStack>
+            <ImportWarningsPanel
+              warnings={importWarnings}
+              onClose={() => setImportWarnings([])}
+            />
+            {/* Subtitle Export */}
+            <HStack className="notranslate" justify="flex-end" gap={2}>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleUndo}
+                disabled={history.past.length === 0}
+                title="撤销 (Z)"
+              >
+                <Icon as={MdUndo} />
+              </Button>
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={handleRedo}
+                disabled={history.future.length === 0}
+                title="重做 (Y)"
+                mr="auto"
+              >
+                <Icon as={MdRedo} />
+              </Button>
+              <HStack as="label" gap={1} fontSize="sm" color="gray.600">
+                <input
+                  type="checkbox"
+                  checked={isCrlfExport}
+                  onChange={(e) => setIsCrlfExport(e.target.checked)}
+                />
+                CRLF
+              </HStack>
+              <HStack
+                as="label"
+                gap={1}
+                fontSize="sm"
+                color="gray.600"
+                title="VTT 中写成 NOTE 块，SRT 中附在字幕文本后"
+              >
+                <input
+                  type="checkbox"
+                  checked={isNotesExport}
+                  onChange={(e) => setIsNotesExport(e.target.checked)}
+                />
+                笔记
+              </HStack>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleSubtitleExport("srt")}
+                disabled={subtitles.length === 0}
+              >
+                <Icon as={FaFileExport} mr={1} />
+                Export SRT
+              </Button>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => handleSubtitleExport("vtt")}
+                disabled={subtitles.length === 0}
+              >
+                <Icon as={FaFileExport} mr={1} />
+                Export VTT
+              </Button>
+            </HStack>
+            <Button
+              size="sm"
+              variant="outline"
+              alignSelf="flex-start"
+              onClick={() => setIsLibraryManagerOpen(true)}
+            >
+              视频库管理
+            </Button>
             {/* Video List */}
             <Box
               borderWidth={1}
@@ -789,12 +2295,17 @@ function AppContent() {
                       whiteSpace="nowrap"
                     >
                       {video.name}
+                      {duplicateVideoNames.has(video.name) && (
+                        <Text as="span" ml={2} fontSize="xs" color="gray.500">
+                          {formatFileInfo(video.size, video.lastModified)}
+                        </Text>
+                      )}
                     </Button>
                     <Button
                       size="sm"
                       colorScheme="red"
                       variant="ghost"
-                      onClick={() => handleVideoDelete(video.key)}
+                      onClick={() => handleVideosDelete([video.key])}
                     >
                       Delete
                     </Button>
@@ -836,6 +2347,24 @@ function AppContent() {
                       <Badge colorScheme="blue">M - 静音/取消静音</Badge>
                       <Badge colorScheme="blue">↑ - 音量+</Badge>
                       <Badge colorScheme="blue">↓ - 音量-</Badge>
+                      <Badge colorScheme="blue">I - 插入字幕</Badge>
+                      <Badge colorScheme="blue">K - 在播放位置拆分</Badge>
+                      <Badge colorScheme="blue">J - 与下一条合并</Badge>
+                      <Badge colorScheme="blue">X - 删除当前字幕</Badge>
+                      <Badge colorScheme="blue">L - 循环当前句</Badge>
+                      <Badge colorScheme="blue">P - 每句自动暂停</Badge>
+                      <Badge colorScheme="blue">[ - 减速</Badge>
+                      <Badge colorScheme="blue">] - 加速</Badge>
+                      <Badge colorScheme="blue">= - 恢复 1×</Badge>
+                      <Badge colorScheme="blue">T - 听写模式</Badge>
+                      <Badge colorScheme="blue">C - 完形填空</Badge>
+                      <Badge colorScheme="blue">B - 收藏当前句</Badge>
+                      <Badge colorScheme="blue">/ - 搜索</Badge>
+                      <Badge colorScheme="blue">
+                        N / Shift+N - 下/上一个结果
+                      </Badge>
+                      <Badge colorScheme="blue">Z - 撤销</Badge>
+                      <Badge colorScheme="blue">Y - 重做</Badge>
                     </HStack>
                   </Box>
                 )}
@@ -978,6 +2507,107 @@ function AppContent() {
                 </HStack>
               </Box>
             </Box>
+            {/* Subtitle Tracks */}
+            <SubtitleTracksPanel
+              tracks={tracks}
+              hiddenTrackIds={hiddenTrackIds}
+              onToggleVisibility={handleTrackVisibilityToggle}
+              onSetPrimary={handleTrackSetPrimary}
+              onDelete={handleTrackDelete}
+              onAddTrack={(e) => handleSubtitleImport(e, true)}
+            />
+            {/* Dictation */}
+            <Button
+              size="md"
+              variant={isDictationMode ? "solid" : "outline"}
+              colorScheme={isDictationMode ? "purple" : "gray"}
+              onClick={() => setIsDictationMode(!isDictationMode)}
+            >
+              {isDictationMode ? "退出听写模式" : "听写模式"}
+            </Button>
+            {isDictationMode && (
+              <DictationPanel
+                subtitles={subtitles}
+                currentSubtitleIndex={getCurrentSubtitleIndex()}
+                results={dictationResults}
+                onSubmit={handleDictationSubmit}
+                onReplay={(subtitle) => handleSeek(subtitle.startTime)}
+              />
+            )}
+            {/* Cloze */}
+            <Button
+              size="md"
+              variant={isClozeMode ? "solid" : "outline"}
+              colorScheme={isClozeMode ? "cyan" : "gray"}
+              onClick={() => setIsClozeMode(!isClozeMode)}
+            >
+              {isClozeMode ? "退出完形填空" : "完形填空"}
+            </Button>
+            {isClozeMode && (
+              <ClozePanel
+                subtitles={subtitles}
+                currentSubtitleIndex={getCurrentSubtitleIndex()}
+                data={clozeData}
+                onSubmit={handleClozeSubmit}
+                onToggleMarkedWord={handleToggleMarkedWord}
+                onReplay={(subtitle) => handleSeek(subtitle.startTime)}
+              />
+            )}
+            {/* Library Search */}
+            <Button
+              size="md"
+              variant="outline"
+              onClick={() => setIsLibrarySearchOpen(true)}
+            >
+              全库搜索
+            </Button>
+            {/* Vocabulary */}
+            <Button
+              size="md"
+              variant="outline"
+              onClick={() => setIsVocabularyOpen(true)}
+            >
+              生词本（{vocabulary.length}）
+            </Button>
+            <Button
+              size="md"
+              variant="outline"
+              onClick={() => setIsAnkiExportOpen(true)}
+            >
+              导出到 Anki
+            </Button>
+            {/* Playback Rate */}
+            <PlaybackRatePanel
+              playbackRate={playbackRate}
+              onPlaybackRateChange={handlePlaybackRateChange}
+              isSlowReplayEnabled={isSlowReplayEnabled}
+              onSlowReplayEnabledChange={setIsSlowReplayEnabled}
+              slowReplayRate={slowReplayRate}
+              onSlowReplayRateChange={setSlowReplayRate}
+            />
+            {/* Auto Pause */}
+            <AutoPausePanel autoPause={autoPause} />
+            {/* A-B Loop */}
+            <LoopPanel
+              loop={loop}
+              subtitleCount={subtitles.length}
+              currentSubtitleIndex={getCurrentSubtitleIndex()}
+            />
+            {/* Audio Clip */}
+            <AudioClipPanel
+              subtitleCount={subtitles.length}
+              currentSubtitleIndex={getCurrentSubtitleIndex()}
+              padding={audioClipPadding}
+              onPaddingChange={setAudioClipPadding}
+              onExport={handleAudioClipExport}
+            />
+            {/* Timing Resync */}
+            <ResyncPanel
+              subtitles={subtitles}
+              currentTime={currentTime}
+              currentSubtitleIndex={getCurrentSubtitleIndex()}
+              onApply={handleResyncApply}
+            />
             {/* Subtitle Visibility Toggle */}
             <Box
               borderWidth={1}
@@ -992,12 +2622,20 @@ function AppContent() {
                   size="md"
                   variant={isSubtitlesVisible ? "solid" : "outline"}
                   colorScheme={isSubtitlesVisible ? "blue" : "gray"}
-                  onClick={() => setIsSubtitlesVisible(!isSubtitlesVisible)}
+                  onClick={handleAllTracksVisibilityToggle}
                   w="full"
                 >
                   <Icon as={() => <span>👁</span>} mr={2} />
                   {isSubtitlesVisible ? "隐藏字幕" : "显示字幕"}
                 </Button>
+                <HStack as="label" gap={2} fontSize="sm" color="gray.600">
+                  <input
+                    type="checkbox"
+                    checked={isBookmarkedOnly}
+                    onChange={(e) => setIsBookmarkedOnly(e.target.checked)}
+                  />
+                  只看收藏（{bookmarkedIndexes.length}）
+                </HStack>
                 <Box textAlign="center" fontSize="sm" color="gray.600">
                   <Text fontWeight="medium" mb={1}>
                     字幕状态：
@@ -1028,78 +2666,253 @@ function AppContent() {
             transition="opacity 0.3s ease"
             pointerEvents={isSubtitlesVisible ? "auto" : "none"}
           >
-            {subtitles.map((subtitle) => {
-              const isCurrentSubtitle =
-                currentTime >= timeToSeconds(subtitle.startTime) &&
-                currentTime <= timeToSeconds(subtitle.endTime)
-
-              return (
-                <Box
-                  id={`subtitle-${subtitle.id}`}
-                  key={subtitle.id}
-                  mb={2}
-                  p={3}
-                  borderWidth={1}
-                  borderRadius="md"
-                  bg={isCurrentSubtitle ? "blue.50" : "white"}
-                  borderColor={isCurrentSubtitle ? "blue.100" : "gray.200"}
-                >
-                  <Flex justify="space-between" align="center" mb={1.5}>
-                    <HStack gap={2}>
-                      <Button
-                        size="xs"
-                        variant="ghost"
-                        colorScheme={isCurrentSubtitle ? "blue" : "gray"}
-                        onClick={() => handleSeek(subtitle.startTime)}
-                        height="24px"
-                        minWidth="60px"
-                        padding="0 8px"
-                        _hover={{
-                          bg: "orange.100",
-                          color: "orange.700",
-                        }}
-                      >
-                        <Icon
-                          as={() => <span>⏱</span>}
-                          mr={1}
-                          fontSize="14px"
-                        />
-                        播放
-                      </Button>
-                      <Button
-                        size="xs"
-                        variant="ghost"
-                        colorScheme={isCurrentSubtitle ? "blue" : "gray"}
-                        onClick={() => handleEditSubtitle(subtitle)}
-                        height="24px"
-                        minWidth="60px"
-                        padding="0 8px"
-                        _hover={{
-                          bg: "teal.100",
-                          color: "teal.700",
-                        }}
-                      >
-                        <Icon as={MdEdit} mr={1} fontSize="14px" />
-                        编辑
-                      </Button>
-                    </HStack>
+            <SubtitleSearchBar
+              inputRef={searchInputRef}
+              options={searchOptions}
+              onOptionsChange={setSearchOptions}
+              error={searchRegExp.error}
+              matchCount={searchResult.matchCount}
+              hitCount={searchResult.hits.length}
+              activeHit={
+                searchResult.hits.indexOf(getCurrentSubtitleIndex()) + 1
+              }
+              onPrevious={() => handleSearchStep(true)}
+              onNext={() => handleSearchStep(false)}
+            />
+            <Box
+              ref={subtitlesListRef}
+              pt={`${virtualList.paddingTop}px`}
+              pb={`${virtualList.paddingBottom}px`}
+            >
+              {listIndexes
+                .slice(virtualList.start, virtualList.end + 1)
+                .map((index) => {
+                  const subtitle = subtitles[index]
+                  const isCurrentSubtitle = activeCueIndexes.includes(index)
+                  const bookmark = bookmarks[getCueKey(subtitle)]
+                  const dictationRecord = dictationResults[getCueKey(subtitle)]
+                  const note = notes[getCueKey(subtitle)]
+                  // 听写模式下，还没有听写过的字幕文本被遮住；
+                  // 完形填空时遮住正在播放的字幕
+                  const isTextMasked =
+                    (isDictationMode && !dictationRecord) ||
+                    (isClozeMode && isCurrentSubtitle)
+
+                  return (
                     <Box
-                      className="notranslate"
-                      fontSize="xs"
-                      color={isCurrentSubtitle ? "blue.600" : "gray.500"}
+                      id={`subtitle-${subtitle.id}`}
+                      key={subtitle.id}
+                      ref={virtualList.measureElement}
+                      data-virtual-key={subtitle.id}
+                      pb={2}
                     >
-                      {subtitle.startTime} → {subtitle.endTime}
+                      <Box
+                        p={3}
+                        borderWidth={1}
+                        borderRadius="md"
+                        bg={isCurrentSubtitle ? "blue.50" : "white"}
+                        borderColor={
+                          isCurrentSubtitle ? "blue.100" : "gray.200"
+                        }
+                      >
+                        <Flex justify="space-between" align="center" mb={1.5}>
+                          <HStack gap={2}>
+                            <Button
+                              size="xs"
+                              variant="ghost"
+                              colorScheme={isCurrentSubtitle ? "blue" : "gray"}
+                              onClick={() => handleSeek(subtitle.startTime)}
+                              height="24px"
+                              minWidth="60px"
+                              padding="0 8px"
+                              _hover={{
+                                bg: "orange.100",
+                                color: "orange.700",
+                              }}
+                            >
+                              <Icon
+                                as={() => <span>⏱</span>}
+                                mr={1}
+                                fontSize="14px"
+                              />
+                              播放
+                            </Button>
+                            <Button
+                              size="xs"
+                              variant="ghost"
+                              colorScheme={isCurrentSubtitle ? "blue" : "gray"}
+                              onClick={() => handleEditSubtitle(subtitle)}
+                              height="24px"
+                              minWidth="60px"
+                              padding="0 8px"
+                              _hover={{
+                                bg: "teal.100",
+                                color: "teal.700",
+                              }}
+                            >
+                              <Icon as={MdEdit} mr={1} fontSize="14px" />
+                              编辑
+                            </Button>
+                            <Button
+                              size="xs"
+                              variant="ghost"
+                              colorScheme={isCurrentSubtitle ? "blue" : "gray"}
+                              onClick={() => handleInsertSubtitle(index)}
+                              height="24px"
+                              padding="0 6px"
+                              title="在后面插入"
+                            >
+                              <Icon as={MdAdd} fontSize="14px" />
+                            </Button>
+                            <Button
+                              size="xs"
+                              variant="ghost"
+                              colorScheme={isCurrentSubtitle ? "blue" : "gray"}
+                              onClick={() => handleSplitSubtitle(index)}
+                              height="24px"
+                              padding="0 6px"
+                              title="在播放位置拆分"
+                            >
+                              <Icon as={MdCallSplit} fontSize="14px" />
+                            </Button>
+                            <Button
+                              size="xs"
+                              variant="ghost"
+                              colorScheme={isCurrentSubtitle ? "blue" : "gray"}
+                              onClick={() => handleMergeSubtitle(index)}
+                              disabled={index === subtitles.length - 1}
+                              height="24px"
+                              padding="0 6px"
+                              title="与下一条合并"
+                            >
+                              <Icon as={MdMergeType} fontSize="14px" />
+                            </Button>
+                            <Button
+                              size="xs"
+                              variant="ghost"
+                              colorScheme={isCurrentSubtitle ? "blue" : "gray"}
+                              onClick={() => handleDeleteSubtitle(index)}
+                              height="24px"
+                              padding="0 6px"
+                              title="删除"
+                              _hover={{
+                                bg: "red.100",
+                                color: "red.700",
+                              }}
+                            >
+                              <Icon as={MdDelete} fontSize="14px" />
+                            </Button>
+                          </HStack>
+                          <HStack gap={2}>
+                            <BookmarkControls
+                              bookmark={bookmark}
+                              onChange={(next) =>
+                                handleBookmarkChange(subtitle, next)
+                              }
+                            />
+                            {dictationRecord && (
+                              <Badge
+                                colorScheme={getAccuracyColor(
+                                  dictationRecord.accuracy,
+                                )}
+                              >
+                                听写{" "}
+                                {Math.round(dictationRecord.accuracy * 100)}%
+                              </Badge>
+                            )}
+                            <Box
+                              className="notranslate"
+                              fontSize="xs"
+                              color={
+                                isCurrentSubtitle ? "blue.600" : "gray.500"
+                              }
+                            >
+                              {subtitle.startTime} → {subtitle.endTime}
+                            </Box>
+                          </HStack>
+                        </Flex>
+                        {isPrimaryTrackVisible && (
+                          <Box
+                            fontSize="md"
+                            color={isCurrentSubtitle ? "blue.800" : "gray.700"}
+                            filter={isTextMasked ? "blur(6px)" : undefined}
+                            userSelect={isTextMasked ? "none" : undefined}
+                            onMouseUp={() =>
+                              !isTextMasked && handleTextSelection(subtitle)
+                            }
+                          >
+                            {searchRegExp.regex
+                              ? splitByMatches(
+                                  subtitle.text,
+                                  searchRegExp.regex,
+                                ).map((segment, i) =>
+                                  segment.isMatch ? (
+                                    <Box
+                                      as="mark"
+                                      // biome-ignore lint/suspicious/noArrayIndexKey: 片段顺序固定
+                                      key={i}
+                                      bg="yellow.200"
+                                      color="inherit"
+                                      borderRadius="sm"
+                                    >
+                                      {segment.text}
+                                    </Box>
+                                  ) : (
+                                    segment.text
+                                  ),
+                                )
+                              : subtitle.text}
+                          </Box>
+                        )}
+                        {alignedSecondaryTracks
+                          .filter(
+                            ({ trackId, pairs }) =>
+                              !hiddenTrackIds.includes(trackId) &&
+                              pairs[index].secondary.length > 0,
+                          )
+                          .map(({ trackId, pairs }) => (
+                            <Box
+                              key={trackId}
+                              mt={1}
+                              fontSize="sm"
+                              whiteSpace="pre-line"
+                              color={
+                                isCurrentSubtitle ? "blue.600" : "gray.500"
+                              }
+                            >
+                              {pairs[index].secondary
+                                .map(
+                                  (secondarySubtitle) => secondarySubtitle.text,
+                                )
+                                .join("\n")}
+                            </Box>
+                          ))}
+                        {note && (
+                          <Box
+                            as="details"
+                            mt={1}
+                            fontSize="sm"
+                            color="gray.600"
+                          >
+                            <Box as="summary" cursor="pointer" color="gray.500">
+                              笔记
+                            </Box>
+                            <Box
+                              mt={1}
+                              pl={3}
+                              borderLeftWidth={2}
+                              borderColor="yellow.300"
+                              whiteSpace="pre-line"
+                            >
+                              {note}
+                            </Box>
+                          </Box>
+                        )}
+                      </Box>
                     </Box>
-                  </Flex>
-                  <Box
-                    fontSize="md"
-                    color={isCurrentSubtitle ? "blue.800" : "gray.700"}
-                  >
-                    {subtitle.text}
-                  </Box>
-                </Box>
-              )
-            })}
+                  )
+                })}
+            </Box>
           </Box>
           {/* Hidden state overlay */}
           <Box
@@ -1135,7 +2948,10 @@ function AppContent() {
       </Flex>
       <EditSubtitleDialog
         isOpen={isEditDialogOpen}
-        onClose={() => setIsEditDialogOpen(false)}
+        onClose={() => {
+          setIsEditDialogOpen(false)
+          setInsertingSubtitles(null)
+        }}
         subtitle={
           selectedSubtitle ?? {
             id: 0,
@@ -1144,8 +2960,115 @@ function AppContent() {
             text: "",
           }
         }
+        previousSubtitle={
+          selectedSubtitleIndex > 0
+            ? editingSubtitles[selectedSubtitleIndex - 1]
+            : undefined
+        }
+        nextSubtitle={
+          selectedSubtitleIndex !== -1
+            ? editingSubtitles[selectedSubtitleIndex + 1]
+            : undefined
+        }
+        currentTime={currentTime}
+        note={
+          selectedSubtitleIndex !== -1
+            ? (notes[getCueKey(editingSubtitles[selectedSubtitleIndex])] ?? "")
+            : ""
+        }
         onSave={handleSaveSubtitle}
       />
+      {pendingTerm && (
+        <HStack
+          className="notranslate"
+          position="fixed"
+          bottom={6}
+          left="50%"
+          transform="translateX(-50%)"
+          zIndex={10}
+          gap={3}
+          px={4}
+          py={2}
+          bg="white"
+          borderWidth={1}
+          borderRadius="lg"
+          shadow="lg"
+        >
+          <Text fontSize="sm" maxW="300px" truncate>
+            「{pendingTerm.term}」
+          </Text>
+          <Button size="sm" colorScheme="blue" onClick={handleAddVocabulary}>
+            加入生词本
+          </Button>
+          <Button
+            size="sm"
+            variant="ghost"
+            onClick={() => setPendingTerm(null)}
+          >
+            取消
+          </Button>
+        </HStack>
+      )}
+      <LibrarySearchDialog
+        isOpen={isLibrarySearchOpen}
+        onClose={() => setIsLibrarySearchOpen(false)}
+        loadLibrary={loadAllSubtitleTracks}
+        videoNames={videoNames}
+        onSelect={handleJumpToCue}
+      />
+      <LibraryManagerDialog
+        isOpen={isLibraryManagerOpen}
+        onClose={() => setIsLibraryManagerOpen(false)}
+        loadLibrary={loadLibraryInfo}
+        currentVideoKey={urlState.currentVideoKey}
+        onDelete={handleVideosDelete}
+      />
+      <VocabularyNotebook
+        isOpen={isVocabularyOpen}
+        onClose={() => setIsVocabularyOpen(false)}
+        entries={vocabulary}
+        currentVideoKey={urlState.currentVideoKey}
+        videoNames={videoNames}
+        onPlay={(entry) => handleJumpToCue(entry.videoKey, entry.startTime)}
+        onDelete={handleDeleteVocabulary}
+      />
+      <AnkiExportDialog
+        isOpen={isAnkiExportOpen}
+        onClose={() => setIsAnkiExportOpen(false)}
+        counts={{
+          vocabulary: vocabulary.length,
+          currentVocabulary: currentVideoVocabulary.length,
+          bookmarks: bookmarkedIndexes.length,
+        }}
+        onExport={handleAnkiExport}
+      />
+      <VideoNameConflictDialog
+        isOpen={pendingVideoImport !== null}
+        onClose={() => setPendingVideoImport(null)}
+        fileName={pendingVideoImport?.file.name ?? ""}
+        existingVideo={videos.find(
+          (video) => video.key === pendingVideoImport?.existingKey,
+        )}
+        newVideo={pendingVideoImport?.file}
+        onReplace={() =>
+          pendingVideoImport &&
+          importVideo(
+            pendingVideoImport.file,
+            pendingVideoImport.id,
+            pendingVideoImport.existingKey,
+          )
+        }
+        onKeepBoth={() =>
+          pendingVideoImport &&
+          importVideo(pendingVideoImport.file, pendingVideoImport.id)
+        }
+      />
+      <AssImportDialog
+        isOpen={pendingAssImport !== null}
+        onClose={() => setPendingAssImport(null)}
+        summary={pendingAssImport?.summary ?? EMPTY_ASS_SUMMARY}
+        onConfirm={handleAssImportConfirm}
+      />
     </Container>
   )
 }
@@ -0,0 +1,157 @@
+import { Box, Button, Dialog, HStack, Portal, Text } from "@chakra-ui/react"
+import { useState } from "react"
+
+export type AnkiExportSource = "vocabulary" | "currentVocabulary" | "bookmarks"
+
+export interface AnkiExportOptions {
+  source: AnkiExportSource
+  withAudio: boolean
+}
+
+interface AnkiExportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  // 每种来源可导出的卡片数
+  counts: Record<AnkiExportSource, number>
+  onExport: (options: AnkiExportOptions) => Promise<void>
+}
+
+const SOURCE_LABELS: Record<AnkiExportSource, string> = {
+  vocabulary: "全部生词",
+  currentVocabulary: "当前视频的生词",
+  bookmarks: "当前视频收藏的句子",
+}
+
+export function AnkiExportDialog({
+  isOpen,
+  onClose,
+  counts,
+  onExport,
+}: AnkiExportDialogProps) {
+  const [source, setSource] = useState<AnkiExportSource>("vocabulary")
+  const [withAudio, setWithAudio] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
+
+  const handleExport = async () => {
+    setIsExporting(true)
+    try {
+      await onExport({ source, withAudio })
+      onClose()
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={({ open }) => !open && onClose()}>
+      <Portal>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content
+            bg="white"
+            rounded="2xl"
+            shadow="xl"
+            maxW="480px"
+            mx={4}
+          >
+            <Dialog.Header
+              pt={6}
+              px={6}
+              pb={4}
+              fontSize="lg"
+              fontWeight="600"
+              color="gray.800"
+            >
+              导出到 Anki
+            </Dialog.Header>
+
+            <Dialog.Body px={6} py={4}>
+              <Box display="flex" flexDirection="column" gap={4}>
+                <Box>
+                  <Text
+                    mb={2.5}
+                    fontSize="sm"
+                    fontWeight="500"
+                    color="gray.600"
+                  >
+                    导出内容
+                  </Text>
+                  {(Object.keys(SOURCE_LABELS) as AnkiExportSource[]).map(
+                    (key) => (
+                      <HStack
+                        as="label"
+                        key={key}
+                        gap={2}
+                        fontSize="sm"
+                        color="gray.800"
+                        py={1}
+                      >
+                        <input
+                          type="radio"
+                          name="anki-export-source"
+                          checked={source === key}
+                          onChange={() => setSource(key)}
+                        />
+                        {SOURCE_LABELS[key]}
+                        <Text as="span" color="gray.400">
+                          {counts[key]} 张
+                        </Text>
+                      </HStack>
+                    ),
+                  )}
+                </Box>
+                <Box>
+                  <HStack as="label" gap={2} fontSize="sm" color="gray.800">
+                    <input
+                      type="checkbox"
+                      checked={withAudio}
+                      onChange={(e) => setWithAudio(e.target.checked)}
+                    />
+                    附带每张卡片的音频片段
+                  </HStack>
+                  <Text mt={1} fontSize="xs" color="gray.500">
+                    将打包为 ZIP：导入其中的 .txt 文件，并把 media
+                    目录中的音频复制到 Anki 的 collection.media 目录。
+                  </Text>
+                </Box>
+              </Box>
+            </Dialog.Body>
+
+            <Dialog.Footer px={6} py={4} gap={3}>
+              <Dialog.CloseTrigger asChild>
+                <Button
+                  bg="gray.100"
+                  color="gray.700"
+                  fontSize="sm"
+                  fontWeight="500"
+                  h="40px"
+                  px={4}
+                  rounded="lg"
+                  _hover={{ bg: "gray.200" }}
+                  _active={{ bg: "gray.300" }}
+                >
+                  取消
+                </Button>
+              </Dialog.CloseTrigger>
+              <Button
+                onClick={handleExport}
+                disabled={counts[source] === 0 || isExporting}
+                bg="blue.500"
+                color="white"
+                fontSize="sm"
+                fontWeight="500"
+                h="40px"
+                px={4}
+                rounded="lg"
+                _hover={{ bg: "blue.600" }}
+                _active={{ bg: "blue.700" }}
+              >
+                {isExporting ? "正在导出…" : "导出"}
+              </Button>
+            </Dialog.Footer>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Portal>
+    </Dialog.Root>
+  )
+}
@@ -0,0 +1,172 @@
+import { Box, Button, Dialog, HStack, Portal, Text } from "@chakra-ui/react"
+import { useEffect, useState } from "react"
+import type { AssEventSummary, AssImportOptions } from "../utils/ass"
+
+interface AssImportDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  summary: AssEventSummary
+  onConfirm: (options: AssImportOptions) => void
+}
+
+const toggleItem = <T,>(items: T[], item: T) =>
+  items.includes(item) ? items.filter((i) => i !== item) : [...items, item]
+
+export function AssImportDialog({
+  isOpen,
+  onClose,
+  summary,
+  onConfirm,
+}: AssImportDialogProps) {
+  const [selectedStyles, setSelectedStyles] = useState<string[]>([])
+  const [selectedLayers, setSelectedLayers] = useState<number[]>([])
+
+  useEffect(() => {
+    setSelectedStyles(summary.styles.map((style) => style.name))
+    setSelectedLayers(summary.layers.map((layer) => layer.layer))
+  }, [summary])
+
+  const handleConfirm = () => {
+    onConfirm({ styles: selectedStyles, layers: selectedLayers })
+    onClose()
+  }
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={({ open }) => !open && onClose()}>
+      <Portal>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content
+            bg="white"
+            rounded="2xl"
+            shadow="xl"
+            maxW="480px"
+            mx={4}
+          >
+            <Dialog.Header
+              pt={6}
+              px={6}
+              pb={4}
+              fontSize="lg"
+              fontWeight="600"
+              color="gray.800"
+            >
+              选择要导入的样式 / 图层
+            </Dialog.Header>
+
+            <Dialog.Body px={6} py={4}>
+              <Box display="flex" flexDirection="column" gap={6}>
+                <Box>
+                  <Text
+                    mb={2.5}
+                    fontSize="sm"
+                    fontWeight="500"
+                    color="gray.600"
+                  >
+                    样式（Style）
+                  </Text>
+                  <Box maxH="200px" overflowY="auto">
+                    {summary.styles.map((style) => (
+                      <HStack
+                        as="label"
+                        key={style.name}
+                        gap={2}
+                        fontSize="sm"
+                        color="gray.800"
+                        py={1}
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedStyles.includes(style.name)}
+                          onChange={() =>
+                            setSelectedStyles(
+                              toggleItem(selectedStyles, style.name),
+                            )
+                          }
+                        />
+                        {style.name || "（无样式）"}
+                        <Text as="span" color="gray.400">
+                          {style.count} 行
+                        </Text>
+                      </HStack>
+                    ))}
+                  </Box>
+                </Box>
+                <Box>
+                  <Text
+                    mb={2.5}
+                    fontSize="sm"
+                    fontWeight="500"
+                    color="gray.600"
+                  >
+                    图层（Layer）
+                  </Text>
+                  <HStack gap={4} wrap="wrap">
+                    {summary.layers.map((layer) => (
+                      <HStack
+                        as="label"
+                        key={layer.layer}
+                        gap={2}
+                        fontSize="sm"
+                        color="gray.800"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedLayers.includes(layer.layer)}
+                          onChange={() =>
+                            setSelectedLayers(
+                              toggleItem(selectedLayers, layer.layer),
+                            )
+                          }
+                        />
+                        {layer.layer}
+                        <Text as="span" color="gray.400">
+                          {layer.count} 行
+                        </Text>
+                      </HStack>
+                    ))}
+                  </HStack>
+                </Box>
+              </Box>
+            </Dialog.Body>
+
+            <Dialog.Footer px={6} py={4} gap={3}>
+              <Dialog.CloseTrigger asChild>
+                <Button
+                  bg="gray.100"
+                  color="gray.700"
+                  fontSize="sm"
+                  fontWeight="500"
+                  h="40px"
+                  px={4}
+                  rounded="lg"
+                  _hover={{ bg: "gray.200" }}
+                  _active={{ bg: "gray.300" }}
+                >
+                  取消
+                </Button>
+              </Dialog.CloseTrigger>
+              <Button
+                onClick={handleConfirm}
+                disabled={
+                  selectedStyles.length === 0 || selectedLayers.length === 0
+                }
+                bg="blue.500"
+                color="white"
+                fontSize="sm"
+                fontWeight="500"
+                h="40px"
+                px={4}
+                rounded="lg"
+                _hover={{ bg: "blue.600" }}
+                _active={{ bg: "blue.700" }}
+              >
+                导入
+              </Button>
+            </Dialog.Footer>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Portal>
+    </Dialog.Root>
+  )
+}
@@ -0,0 +1,114 @@
+import { Box, Button, HStack, Input, Text, VStack } from "@chakra-ui/react"
+import { useState } from "react"
+
+interface AudioClipPanelProps {
+  subtitleCount: number
+  currentSubtitleIndex: number
+  padding: number
+  onPaddingChange: (padding: number) => void
+  onExport: (from: number, to: number) => Promise<void>
+}
+
+export function AudioClipPanel({
+  subtitleCount,
+  currentSubtitleIndex,
+  padding,
+  onPaddingChange,
+  onExport,
+}: AudioClipPanelProps) {
+  const [rangeFrom, setRangeFrom] = useState("")
+  const [rangeTo, setRangeTo] = useState("")
+  const [isExporting, setIsExporting] = useState(false)
+
+  if (subtitleCount === 0) return null
+
+  const currentIndex = Math.max(0, currentSubtitleIndex)
+
+  const handleExport = async (from: number, to: number) => {
+    if (Number.isNaN(from) || Number.isNaN(to)) return
+    setIsExporting(true)
+    try {
+      await onExport(from, to)
+    } finally {
+      setIsExporting(false)
+    }
+  }
+
+  const handleExportRange = () => {
+    // 序号从 1 开始，留空表示当前句
+    const from = rangeFrom ? Number(rangeFrom) - 1 : currentIndex
+    const to = rangeTo ? Number(rangeTo) - 1 : from
+    handleExport(from, to)
+  }
+
+  return (
+    <Box borderWidth={1} borderRadius="lg" p={4} bg="white">
+      <VStack align="stretch" gap={3}>
+        <HStack justify="space-between">
+          <Text fontSize="sm" fontWeight="medium" color="gray.700">
+            导出音频片段
+          </Text>
+          {isExporting && (
+            <Text fontSize="xs" color="gray.500">
+              正在解码…
+            </Text>
+          )}
+        </HStack>
+        <HStack gap={2}>
+          <Button
+            size="sm"
+            colorScheme="green"
+            onClick={() => handleExport(currentIndex, currentIndex)}
+            disabled={isExporting}
+          >
+            当前句
+          </Button>
+          <Input
+            size="sm"
+            w="60px"
+            placeholder={String(currentIndex + 1)}
+            value={rangeFrom}
+            onChange={(e) => setRangeFrom(e.target.value)}
+          />
+          <Text fontSize="sm" color="gray.500">
+            —
+          </Text>
+          <Input
+            size="sm"
+            w="60px"
+            placeholder={rangeFrom || String(currentIndex + 1)}
+            value={rangeTo}
+            onChange={(e) => setRangeTo(e.target.value)}
+          />
+          <Button
+            size="sm"
+            variant="outline"
+            onClick={handleExportRange}
+            disabled={isExporting}
+          >
+            导出范围
+          </Button>
+        </HStack>
+        <HStack gap={2}>
+          <Text fontSize="sm" color="gray.600">
+            前后留白
+          </Text>
+          <Input
+            size="sm"
+            w="70px"
+            type="number"
+            min={0}
+            step={0.05}
+            value={padding}
+            onChange={(e) =>
+              onPaddingChange(Math.max(0, Number(e.target.value) || 0))
+            }
+          />
+          <Text fontSize="sm" color="gray.500">
+            秒
+          </Text>
+        </HStack>
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,58 @@
+import { Box, Button, HStack, Input, Text, VStack } from "@chakra-ui/react"
+import type { AutoPause } from "../hooks/useAutoPause"
+
+interface AutoPausePanelProps {
+  autoPause: AutoPause
+}
+
+export function AutoPausePanel({ autoPause }: AutoPausePanelProps) {
+  return (
+    <Box
+      borderWidth={1}
+      borderRadius="lg"
+      p={4}
+      bg={autoPause.isEnabled ? "teal.50" : "white"}
+      borderColor={autoPause.isEnabled ? "teal.200" : "gray.200"}
+    >
+      <VStack align="stretch" gap={3}>
+        <Button
+          size="sm"
+          variant={autoPause.isEnabled ? "solid" : "outline"}
+          colorScheme={autoPause.isEnabled ? "teal" : "gray"}
+          onClick={autoPause.toggle}
+        >
+          {autoPause.isEnabled ? "每句自动暂停：开" : "每句自动暂停：关"}
+        </Button>
+        {autoPause.isEnabled && (
+          <HStack gap={2} wrap="wrap">
+            <HStack as="label" gap={2} fontSize="sm" color="gray.600">
+              <input
+                type="checkbox"
+                checked={autoPause.isAutoResume}
+                onChange={(e) => autoPause.setIsAutoResume(e.target.checked)}
+              />
+              自动继续，停顿
+            </HStack>
+            <Input
+              size="sm"
+              w="70px"
+              type="number"
+              min={0}
+              step={0.5}
+              value={autoPause.resumeFactor}
+              disabled={!autoPause.isAutoResume}
+              onChange={(e) =>
+                autoPause.setResumeFactor(
+                  Math.max(0, Number(e.target.value) || 0),
+                )
+              }
+            />
+            <Text fontSize="sm" color="gray.500">
+              × 字幕时长
+            </Text>
+          </HStack>
+        )}
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,82 @@
+import { Button, HStack, Icon } from "@chakra-ui/react"
+import { FaBookmark, FaRegBookmark, FaRegStar, FaStar } from "react-icons/fa"
+import type { CueBookmark, CueDifficulty } from "../types"
+
+export const DIFFICULTY_LABELS: Record<CueDifficulty, string> = {
+  easy: "简单",
+  medium: "一般",
+  hard: "困难",
+}
+
+const MAX_RATING = 5
+
+interface BookmarkControlsProps {
+  bookmark: CueBookmark | undefined
+  // 传入 null 表示取消收藏
+  onChange: (bookmark: CueBookmark | null) => void
+}
+
+export function BookmarkControls({
+  bookmark,
+  onChange,
+}: BookmarkControlsProps) {
+  const update = (changes: Partial<CueBookmark>) =>
+    onChange({
+      rating: 0,
+      difficulty: null,
+      ...bookmark,
+      ...changes,
+      updatedAt: Date.now(),
+    })
+
+  return (
+    <HStack gap={0.5}>
+      <Button
+        size="xs"
+        variant="ghost"
+        height="24px"
+        padding="0 6px"
+        color={bookmark ? "yellow.500" : "gray.400"}
+        onClick={() => (bookmark ? onChange(null) : update({}))}
+        title={bookmark ? "取消收藏 (B)" : "收藏 (B)"}
+      >
+        <Icon as={bookmark ? FaBookmark : FaRegBookmark} fontSize="12px" />
+      </Button>
+      {bookmark && (
+        <>
+          {Array.from({ length: MAX_RATING }, (_, i) => i + 1).map((star) => (
+            <Icon
+              key={star}
+              as={star <= bookmark.rating ? FaStar : FaRegStar}
+              fontSize="12px"
+              color={star <= bookmark.rating ? "yellow.500" : "gray.300"}
+              cursor="pointer"
+              // 再次点击当前星级时清除评分
+              onClick={() =>
+                update({ rating: star === bookmark.rating ? 0 : star })
+              }
+            />
+          ))}
+          <select
+            value={bookmark.difficulty ?? ""}
+            onChange={(e) =>
+              update({
+                difficulty: (e.target.value || null) as CueDifficulty | null,
+              })
+            }
+            style={{ fontSize: "12px", marginLeft: "4px" }}
+          >
+            <option value="">难度</option>
+            {(Object.keys(DIFFICULTY_LABELS) as CueDifficulty[]).map(
+              (difficulty) => (
+                <option key={difficulty} value={difficulty}>
+                  {DIFFICULTY_LABELS[difficulty]}
+                </option>
+              ),
+            )}
+          </select>
+        </>
+      )}
+    </HStack>
+  )
+}
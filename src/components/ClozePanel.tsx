@@ -0,0 +1,319 @@
+import {
+  Badge,
+  Box,
+  Button,
+  HStack,
+  Input,
+  Text,
+  VStack,
+} from "@chakra-ui/react"
+import { useMemo, useState } from "react"
+import type { ClozeData, Subtitle } from "../types"
+import {
+  type ClozeStrategy,
+  buildWordFrequency,
+  createCloze,
+  isClozeAnswerCorrect,
+} from "../utils/cloze"
+import { getCueKey } from "../utils/cueKey"
+import { tokenizeWords } from "../utils/wordDiff"
+
+// 错题列表最多显示的条数
+const MAX_REVIEW_ITEMS = 10
+
+const STRATEGY_LABELS: Record<ClozeStrategy, string> = {
+  random: "随机",
+  frequency: "低频词",
+  marked: "标记的词",
+}
+
+interface ClozePanelProps {
+  subtitles: Subtitle[]
+  currentSubtitleIndex: number
+  data: ClozeData
+  onSubmit: (subtitle: Subtitle, correct: number, total: number) => void
+  onToggleMarkedWord: (word: string) => void
+  onReplay: (subtitle: Subtitle) => void
+}
+
+export function ClozePanel({
+  subtitles,
+  currentSubtitleIndex,
+  data,
+  onSubmit,
+  onToggleMarkedWord,
+  onReplay,
+}: ClozePanelProps) {
+  const [strategy, setStrategy] = useState<ClozeStrategy>("random")
+  const [ratio, setRatio] = useState(0.3)
+  // 用于"换一组"时重新随机
+  const [round, setRound] = useState(0)
+  const [inputs, setInputs] = useState<string[]>([])
+  const [isChecked, setIsChecked] = useState(false)
+  // 开始填写后锁定目标字幕
+  const [lockedIndex, setLockedIndex] = useState<number | null>(null)
+
+  const frequency = useMemo(() => buildWordFrequency(subtitles), [subtitles])
+
+  const reviewItems = useMemo(
+    () =>
+      subtitles
+        .map((subtitle, index) => ({
+          subtitle,
+          index,
+          record: data.results[getCueKey(subtitle)],
+        }))
+        .filter(({ record }) => record && record.mistakes > 0)
+        .sort((a, b) => b.record.mistakes - a.record.mistakes)
+        .slice(0, MAX_REVIEW_ITEMS),
+    [subtitles, data.results],
+  )
+
+  const targetIndex = lockedIndex ?? currentSubtitleIndex
+  const target = subtitles[targetIndex]
+
+  const cloze = useMemo(
+    () =>
+      target
+        ? createCloze(target.text, {
+            strategy,
+            ratio,
+            frequency,
+            markedWords: data.markedWords,
+            seed: `${getCueKey(target)}-${round}`,
+          })
+        : null,
+    [target, strategy, ratio, frequency, data.markedWords, round],
+  )
+
+  const reset = () => {
+    setInputs([])
+    setIsChecked(false)
+    setLockedIndex(null)
+  }
+
+  const handleCheck = () => {
+    if (!target || !cloze || cloze.answers.length === 0) return
+    const correct = cloze.answers.filter((answer, index) =>
+      isClozeAnswerCorrect(answer, inputs[index] ?? ""),
+    ).length
+    setIsChecked(true)
+    setLockedIndex(targetIndex)
+    onSubmit(target, correct, cloze.answers.length)
+  }
+
+  const handleNext = () => {
+    const next = subtitles[targetIndex + 1]
+    reset()
+    if (next) {
+      onReplay(next)
+    }
+  }
+
+  const handleJump = (index: number) => {
+    reset()
+    setLockedIndex(index)
+    onReplay(subtitles[index])
+  }
+
+  return (
+    <Box
+      borderWidth={1}
+      borderRadius="lg"
+      p={4}
+      bg="cyan.50"
+      borderColor="cyan.200"
+    >
+      <VStack align="stretch" gap={3}>
+        <HStack justify="space-between" wrap="wrap">
+          <Text fontSize="sm" fontWeight="medium" color="gray.700">
+            完形填空{target && ` · 第 ${targetIndex + 1} 句`}
+          </Text>
+          <HStack gap={2}>
+            <select
+              value={strategy}
+              onChange={(e) => {
+                setStrategy(e.target.value as ClozeStrategy)
+                setInputs([])
+                setIsChecked(false)
+              }}
+            >
+              {(Object.keys(STRATEGY_LABELS) as ClozeStrategy[]).map((key) => (
+                <option key={key} value={key}>
+                  {STRATEGY_LABELS[key]}
+                </option>
+              ))}
+            </select>
+            <select
+              value={ratio}
+              disabled={strategy === "marked"}
+              onChange={(e) => setRatio(Number(e.target.value))}
+            >
+              {[0.2, 0.3, 0.5].map((value) => (
+                <option key={value} value={value}>
+                  {value * 100}%
+                </option>
+              ))}
+            </select>
+          </HStack>
+        </HStack>
+
+        {!target || !cloze ? (
+          <Text fontSize="sm" color="gray.500">
+            播放视频，听到字幕后开始填空
+          </Text>
+        ) : cloze.answers.length === 0 ? (
+          <Text fontSize="sm" color="gray.500">
+            这句没有可以挖空的词
+            {strategy === "marked" && "（先在检查结果中点击单词进行标记）"}
+          </Text>
+        ) : (
+          <Box fontSize="md" lineHeight="tall">
+            {cloze.parts.map((part, index) => {
+              if (part.blankIndex === undefined) {
+                // biome-ignore lint/suspicious/noArrayIndexKey: 片段顺序固定
+                return <span key={index}>{part.text}</span>
+              }
+              const blankIndex = part.blankIndex
+              const value = inputs[blankIndex] ?? ""
+              const isCorrect = isClozeAnswerCorrect(part.text, value)
+              return (
+                <Input
+                  // biome-ignore lint/suspicious/noArrayIndexKey: 片段顺序固定
+                  key={index}
+                  display="inline-block"
+                  size="xs"
+                  w={`${Math.max(4, part.text.length + 2)}ch`}
+                  mx={0.5}
+                  bg="white"
+                  value={value}
+                  readOnly={isChecked}
+                  borderColor={
+                    isChecked
+                      ? isCorrect
+                        ? "green.400"
+                        : "red.400"
+                      : undefined
+                  }
+                  onChange={(e) => {
+                    const nextInputs = [...inputs]
+                    nextInputs[blankIndex] = e.target.value
+                    setInputs(nextInputs)
+                    if (lockedIndex === null) {
+                      setLockedIndex(targetIndex)
+                    }
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault()
+                      handleCheck()
+                    }
+                  }}
+                />
+              )
+            })}
+          </Box>
+        )}
+
+        {target && (
+          <HStack gap={2}>
+            <Button
+              size="sm"
+              colorScheme="cyan"
+              onClick={handleCheck}
+              disabled={isChecked || !cloze?.answers.length}
+            >
+              检查
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => onReplay(target)}
+            >
+              重听
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setInputs([])
+                setIsChecked(false)
+                setRound(round + 1)
+              }}
+            >
+              换一组
+            </Button>
+            <Button size="sm" variant="ghost" onClick={handleNext}>
+              下一句
+            </Button>
+          </HStack>
+        )}
+
+        {isChecked && target && cloze && (
+          <Box>
+            <Text fontSize="sm" color="gray.600" mb={1}>
+              答案：
+              {cloze.answers
+                .map((answer, index) =>
+                  isClozeAnswerCorrect(answer, inputs[index] ?? "")
+                    ? answer
+                    : `${answer}（你填的是"${inputs[index] ?? ""}"）`,
+                )
+                .join("，")}
+            </Text>
+            <Text fontSize="xs" color="gray.500" mb={1}>
+              点击单词标记 / 取消标记：
+            </Text>
+            <HStack gap={1} wrap="wrap">
+              {tokenizeWords(target.text).map((word) => {
+                const isMarked = data.markedWords.includes(word.normalized)
+                return (
+                  <Button
+                    key={word.index}
+                    size="xs"
+                    variant={isMarked ? "solid" : "outline"}
+                    colorScheme={isMarked ? "cyan" : "gray"}
+                    onClick={() => onToggleMarkedWord(word.normalized)}
+                  >
+                    {word.text}
+                  </Button>
+                )
+              })}
+            </HStack>
+          </Box>
+        )}
+
+        {reviewItems.length > 0 && (
+          <Box>
+            <Text fontSize="xs" color="gray.500" mb={1}>
+              错误最多的句子
+            </Text>
+            <VStack align="stretch" gap={1}>
+              {reviewItems.map(({ subtitle, index, record }) => (
+                <HStack
+                  key={getCueKey(subtitle)}
+                  gap={2}
+                  cursor="pointer"
+                  onClick={() => handleJump(index)}
+                  _hover={{ bg: "cyan.100" }}
+                  borderRadius="md"
+                  px={1}
+                >
+                  <Badge colorScheme="red">错 {record.mistakes}</Badge>
+                  <Text
+                    fontSize="sm"
+                    overflow="hidden"
+                    textOverflow="ellipsis"
+                    whiteSpace="nowrap"
+                  >
+                    {subtitle.text}
+                  </Text>
+                </HStack>
+              ))}
+            </VStack>
+          </Box>
+        )}
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,157 @@
+import {
+  Badge,
+  Box,
+  Button,
+  HStack,
+  Text,
+  Textarea,
+  VStack,
+} from "@chakra-ui/react"
+import { useState } from "react"
+import type { DictationResults, Subtitle } from "../types"
+import { getCueKey } from "../utils/cueKey"
+import { diffWords } from "../utils/wordDiff"
+
+interface DictationPanelProps {
+  subtitles: Subtitle[]
+  currentSubtitleIndex: number
+  results: DictationResults
+  onSubmit: (subtitle: Subtitle, answer: string, accuracy: number) => void
+  onReplay: (subtitle: Subtitle) => void
+}
+
+const DIFF_COLORS = {
+  correct: { color: "green.700", bg: "transparent" },
+  missing: { color: "red.700", bg: "red.100" },
+  extra: { color: "gray.500", bg: "gray.100" },
+}
+
+export const getAccuracyColor = (accuracy: number) =>
+  accuracy >= 0.9 ? "green" : accuracy >= 0.6 ? "orange" : "red"
+
+export function DictationPanel({
+  subtitles,
+  currentSubtitleIndex,
+  results,
+  onSubmit,
+  onReplay,
+}: DictationPanelProps) {
+  const [answer, setAnswer] = useState("")
+  // 开始输入后锁定目标字幕，避免播放继续时目标跟着变化
+  const [lockedIndex, setLockedIndex] = useState<number | null>(null)
+  const [submittedAnswer, setSubmittedAnswer] = useState<string | null>(null)
+
+  const targetIndex = lockedIndex ?? currentSubtitleIndex
+  const target = subtitles[targetIndex]
+  if (!target) {
+    return (
+      <Box borderWidth={1} borderRadius="lg" p={4}>
+        <Text fontSize="sm" color="gray.500">
+          播放视频，听到字幕后开始听写
+        </Text>
+      </Box>
+    )
+  }
+
+  const result =
+    submittedAnswer !== null ? diffWords(target.text, submittedAnswer) : null
+  const record = results[getCueKey(target)]
+
+  const handleSubmit = () => {
+    if (!answer.trim()) return
+    const { accuracy } = diffWords(target.text, answer)
+    setSubmittedAnswer(answer)
+    setLockedIndex(targetIndex)
+    onSubmit(target, answer, accuracy)
+  }
+
+  const handleNext = () => {
+    setAnswer("")
+    setSubmittedAnswer(null)
+    setLockedIndex(null)
+    const next = subtitles[targetIndex + 1]
+    if (next) {
+      onReplay(next)
+    }
+  }
+
+  return (
+    <Box
+      borderWidth={1}
+      borderRadius="lg"
+      p={4}
+      bg="purple.50"
+      borderColor="purple.200"
+    >
+      <VStack align="stretch" gap={3}>
+        <HStack justify="space-between">
+          <Text fontSize="sm" fontWeight="medium" color="gray.700">
+            听写 · 第 {targetIndex + 1} 句
+          </Text>
+          {record && (
+            <Badge colorScheme={getAccuracyColor(record.accuracy)}>
+              上次 {Math.round(record.accuracy * 100)}% · 共 {record.attempts}{" "}
+              次
+            </Badge>
+          )}
+        </HStack>
+        <Textarea
+          value={answer}
+          onChange={(e) => {
+            setAnswer(e.target.value)
+            if (lockedIndex === null) {
+              setLockedIndex(targetIndex)
+            }
+          }}
+          onKeyDown={(e) => {
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault()
+              handleSubmit()
+            }
+          }}
+          placeholder="输入听到的内容，Enter 检查，Shift+Enter 换行"
+          rows={3}
+          bg="white"
+          fontSize="sm"
+        />
+        <HStack gap={2}>
+          <Button size="sm" colorScheme="purple" onClick={handleSubmit}>
+            检查
+          </Button>
+          <Button size="sm" variant="outline" onClick={() => onReplay(target)}>
+            重听
+          </Button>
+          <Button size="sm" variant="ghost" onClick={handleNext}>
+            下一句
+          </Button>
+        </HStack>
+        {result && (
+          <Box>
+            <Text fontSize="sm" color="gray.600" mb={1}>
+              正确率 {Math.round(result.accuracy * 100)}%
+            </Text>
+            <Box fontSize="md" lineHeight="tall">
+              {result.tokens.map((token, index) => (
+                <Text
+                  as="span"
+                  // biome-ignore lint/suspicious/noArrayIndexKey: 同一个词可能出现多次
+                  key={index}
+                  px={0.5}
+                  mr={1}
+                  borderRadius="sm"
+                  color={DIFF_COLORS[token.status].color}
+                  bg={DIFF_COLORS[token.status].bg}
+                  textDecoration={
+                    token.status === "extra" ? "line-through" : undefined
+                  }
+                >
+                  {token.text}
+                </Text>
+              ))}
+            </Box>
+          </Box>
+        )}
+      </VStack>
+    </Box>
+  )
+}
@@ -2,47 +2,149 @@ import {
   Box,
   Button,
   Dialog,
+  HStack,
   Input,
   Portal,
   Text,
   Textarea,
 } from "@chakra-ui/react"
 import { useEffect, useState } from "react"
+import type { Subtitle } from "../types"
+import { secondsToTimeStr, timeToSeconds } from "../utils/time"
+import {
+  type TimingIssue,
+  autoFixSubtitleTiming,
+  hasBlockingIssue,
+  validateSubtitleTiming,
+} from "../utils/validation"
+
+// 微调按钮每次调整的秒数
+const NUDGE_STEP = 0.1
 
 interface EditSubtitleDialogProps {
   isOpen: boolean
   onClose: () => void
-  subtitle: {
-    id: number
-    startTime: string
-    endTime: string
-    text: string
+  subtitle: Subtitle
+  previousSubtitle?: Subtitle
+  nextSubtitle?: Subtitle
+  currentTime: number
+  // 笔记单独保存，重新导入字幕不会覆盖
+  note: string
+  onSave: (editedSubtitle: Subtitle, note: string) => void
+}
+
+interface TimeFieldProps {
+  label: string
+  value: string
+  issue?: TimingIssue
+  onChange: (value: string) => void
+  onSetCurrent: () => void
+}
+
+function TimeField({
+  label,
+  value,
+  issue,
+  onChange,
+  onSetCurrent,
+}: TimeFieldProps) {
+  const seconds = timeToSeconds(value)
+
+  const nudge = (delta: number) => {
+    if (Number.isNaN(seconds)) return
+    onChange(secondsToTimeStr(Math.max(0, seconds + delta)))
   }
-  onSave: (editedSubtitle: {
-    id: number
-    startTime: string
-    endTime: string
-    text: string
-  }) => void
+
+  return (
+    <Box>
+      <Text mb={2.5} fontSize="sm" fontWeight="500" color="gray.600">
+        {label}
+      </Text>
+      <HStack gap={2}>
+        <Input
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder="00:00:00,000"
+          bg="gray.50"
+          border="none"
+          rounded="lg"
+          fontSize="sm"
+          color="gray.800"
+          h="40px"
+          flex={1}
+          _placeholder={{ color: "gray.400" }}
+          _hover={{ bg: "gray.100" }}
+          _focus={{ bg: "gray.100", ring: 2, ringColor: "blue.500" }}
+          {...(issue?.isBlocking && { ring: 2, ringColor: "red.400" })}
+        />
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => nudge(-NUDGE_STEP)}
+          disabled={Number.isNaN(seconds)}
+        >
+          -100ms
+        </Button>
+        <Button
+          size="sm"
+          variant="ghost"
+          onClick={() => nudge(NUDGE_STEP)}
+          disabled={Number.isNaN(seconds)}
+        >
+          +100ms
+        </Button>
+        <Button size="sm" variant="outline" onClick={onSetCurrent}>
+          当前
+        </Button>
+      </HStack>
+      {issue && (
+        <Text
+          mt={1.5}
+          fontSize="xs"
+          color={issue.isBlocking ? "red.500" : "orange.500"}
+        >
+          {issue.message}
+        </Text>
+      )}
+    </Box>
+  )
 }
 
 export function EditSubtitleDialog({
   isOpen,
   onClose,
   subtitle,
+  previousSubtitle,
+  nextSubtitle,
+  currentTime,
+  note,
   onSave,
 }: EditSubtitleDialogProps) {
   const [editedSubtitle, setEditedSubtitle] = useState(subtitle)
+  const [editedNote, setEditedNote] = useState(note)
 
+  // 对话框一直挂载，每次打开时丢弃上次取消时留下的草稿
   useEffect(() => {
-    setEditedSubtitle(subtitle)
-  }, [subtitle])
+    if (isOpen) {
+      setEditedSubtitle(subtitle)
+      setEditedNote(note)
+    }
+  }, [isOpen, subtitle, note])
+
+  const neighbours = { previous: previousSubtitle, next: nextSubtitle }
+  const issues = validateSubtitleTiming(editedSubtitle, neighbours)
+  const hasIssue = Boolean(issues.startTime || issues.endTime)
 
   const handleSave = () => {
-    onSave(editedSubtitle)
+    if (hasBlockingIssue(issues)) return
+    onSave(editedSubtitle, editedNote)
     onClose()
   }
 
+  const handleAutoFix = () => {
+    setEditedSubtitle(autoFixSubtitleTiming(editedSubtitle, neighbours))
+  }
+
   return (
     <Dialog.Root open={isOpen} onOpenChange={({ open }) => !open && onClose()}>
       <Portal>
@@ -52,7 +154,7 @@ export function EditSubtitleDialog({
             bg="white"
             rounded="2xl"
             shadow="xl"
-            maxW="480px"
+            maxW="560px"
             mx={4}
           >
             <Dialog.Header
@@ -68,6 +170,34 @@ export function EditSubtitleDialog({
 
             <Dialog.Body px={6} py={4}>
               <Box display="flex" flexDirection="column" gap={6}>
+                <TimeField
+                  label="开始时间"
+                  value={editedSubtitle.startTime}
+                  issue={issues.startTime}
+                  onChange={(startTime) =>
+                    setEditedSubtitle({ ...editedSubtitle, startTime })
+                  }
+                  onSetCurrent={() =>
+                    setEditedSubtitle({
+                      ...editedSubtitle,
+                      startTime: secondsToTimeStr(currentTime),
+                    })
+                  }
+                />
+                <TimeField
+                  label="结束时间"
+                  value={editedSubtitle.endTime}
+                  issue={issues.endTime}
+                  onChange={(endTime) =>
+                    setEditedSubtitle({ ...editedSubtitle, endTime })
+                  }
+                  onSetCurrent={() =>
+                    setEditedSubtitle({
+                      ...editedSubtitle,
+                      endTime: secondsToTimeStr(currentTime),
+                    })
+                  }
+                />
                 <Box>
                   <Text
                     mb={2.5}
@@ -75,55 +205,26 @@ export function EditSubtitleDialog({
                     fontWeight="500"
                     color="gray.600"
                   >
-                    开始时间
-                  </Text>
-                  <Input
-                    value={editedSubtitle.startTime}
-                    onChange={(e) =>
-                      setEditedSubtitle({
-                        ...editedSubtitle,
-                        startTime: e.target.value,
-                      })
-                    }
-                    placeholder="00:00:00,000"
-                    bg="gray.50"
-                    border="none"
-                    rounded="lg"
-                    fontSize="sm"
-                    color="gray.800"
-                    h="40px"
-                    _placeholder={{ color: "gray.400" }}
-                    _hover={{ bg: "gray.100" }}
-                    _focus={{ bg: "gray.100", ring: 2, ringColor: "blue.500" }}
-                  />
-                </Box>
-                <Box>
-                  <Text
-                    mb={2.5}
-                    fontSize="sm"
-                    fontWeight="500"
-                    color="gray.600"
-                  >
-                    结束时间
+                    字幕内容
                   </Text>
-                  <Input
-                    value={editedSubtitle.endTime}
+                  <Textarea
+                    value={editedSubtitle.text}
                     onChange={(e) =>
                       setEditedSubtitle({
                         ...editedSubtitle,
-                        endTime: e.target.value,
+                        text: e.target.value,
                       })
                     }
-                    placeholder="00:00:00,000"
+                    rows={4}
                     bg="gray.50"
                     border="none"
                     rounded="lg"
                     fontSize="sm"
                     color="gray.800"
-                    h="40px"
                     _placeholder={{ color: "gray.400" }}
                     _hover={{ bg: "gray.100" }}
                     _focus={{ bg: "gray.100", ring: 2, ringColor: "blue.500" }}
+                    resize="vertical"
                   />
                 </Box>
                 <Box>
@@ -133,17 +234,13 @@ export function EditSubtitleDialog({
                     fontWeight="500"
                     color="gray.600"
                   >
-                    字幕内容
+                    笔记
                   </Text>
                   <Textarea
-                    value={editedSubtitle.text}
-                    onChange={(e) =>
-                      setEditedSubtitle({
-                        ...editedSubtitle,
-                        text: e.target.value,
-                      })
-                    }
-                    rows={4}
+                    value={editedNote}
+                    onChange={(e) => setEditedNote(e.target.value)}
+                    placeholder="语法、翻译、上下文……"
+                    rows={3}
                     bg="gray.50"
                     border="none"
                     rounded="lg"
@@ -159,6 +256,21 @@ export function EditSubtitleDialog({
             </Dialog.Body>
 
             <Dialog.Footer px={6} py={4} gap={3}>
+              {hasIssue && (
+                <Button
+                  onClick={handleAutoFix}
+                  variant="ghost"
+                  color="orange.600"
+                  fontSize="sm"
+                  fontWeight="500"
+                  h="40px"
+                  px={4}
+                  rounded="lg"
+                  mr="auto"
+                >
+                  自动修正
+                </Button>
+              )}
               <Dialog.CloseTrigger asChild>
                 <Button
                   bg="gray.100"
@@ -176,6 +288,7 @@ export function EditSubtitleDialog({
               </Dialog.CloseTrigger>
               <Button
                 onClick={handleSave}
+                disabled={hasBlockingIssue(issues)}
                 bg="blue.500"
                 color="white"
                 fontSize="sm"
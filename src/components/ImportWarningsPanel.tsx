@@ -0,0 +1,45 @@
+import { Box, Button, Flex, Text, VStack } from "@chakra-ui/react"
+import type { SubtitleParseWarning } from "../types"
+
+interface ImportWarningsPanelProps {
+  warnings: SubtitleParseWarning[]
+  onClose: () => void
+}
+
+export function ImportWarningsPanel({
+  warnings,
+  onClose,
+}: ImportWarningsPanelProps) {
+  if (warnings.length === 0) return null
+
+  return (
+    <Box
+      borderWidth={1}
+      borderRadius="lg"
+      p={4}
+      bg="orange.50"
+      borderColor="orange.200"
+    >
+      <Flex justify="space-between" align="center" mb={2}>
+        <Text fontSize="sm" fontWeight="medium" color="orange.800">
+          导入时发现 {warnings.length} 个问题
+        </Text>
+        <Button size="xs" variant="ghost" onClick={onClose}>
+          关闭
+        </Button>
+      </Flex>
+      <VStack align="stretch" gap={1} maxH="160px" overflowY="auto">
+        {warnings.map((warning, index) => (
+          <Text
+            // biome-ignore lint/suspicious/noArrayIndexKey: 同一行可能有多条警告
+            key={index}
+            fontSize="xs"
+            color="orange.700"
+          >
+            第 {warning.line} 行：{warning.message}
+          </Text>
+        ))}
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,330 @@
+import {
+  Box,
+  Button,
+  Dialog,
+  HStack,
+  Portal,
+  Text,
+  VStack,
+} from "@chakra-ui/react"
+import { useCallback, useEffect, useMemo, useState } from "react"
+import type { LibraryVideoInfo } from "../types"
+import { formatBytes, formatDuration, formatFileInfo } from "../utils/format"
+
+type SortOrder = "lastOpened" | "size" | "name"
+
+const SORT_LABELS: Record<SortOrder, string> = {
+  lastOpened: "最近打开",
+  size: "占用空间",
+  name: "名称",
+}
+
+const compareVideos = (
+  order: SortOrder,
+  a: LibraryVideoInfo,
+  b: LibraryVideoInfo,
+) => {
+  switch (order) {
+    case "lastOpened":
+      return (b.lastOpenedAt ?? 0) - (a.lastOpenedAt ?? 0)
+    case "size":
+      return b.size - a.size
+    case "name":
+      return a.name.localeCompare(b.name)
+  }
+}
+
+interface LibraryManagerDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  loadLibrary: () => Promise<LibraryVideoInfo[]>
+  currentVideoKey: string
+  onDelete: (keys: string[]) => Promise<void>
+}
+
+export function LibraryManagerDialog({
+  isOpen,
+  onClose,
+  loadLibrary,
+  currentVideoKey,
+  onDelete,
+}: LibraryManagerDialogProps) {
+  const [videos, setVideos] = useState<LibraryVideoInfo[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [selectedKeys, setSelectedKeys] = useState<Set<string>>(new Set())
+  const [sortOrder, setSortOrder] = useState<SortOrder>("lastOpened")
+  // 浏览器不支持或非安全上下文时为 null
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null)
+  const [isPersisted, setIsPersisted] = useState<boolean | null>(null)
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true)
+    try {
+      const [videos, estimate, isPersisted] = await Promise.all([
+        loadLibrary(),
+        navigator.storage?.estimate() ?? null,
+        navigator.storage?.persisted() ?? null,
+      ])
+      setVideos(videos)
+      setEstimate(estimate)
+      setIsPersisted(isPersisted)
+      // 去掉已经不存在的选中项
+      setSelectedKeys(
+        (keys) =>
+          new Set(
+            videos.filter((video) => keys.has(video.key)).map((v) => v.key),
+          ),
+      )
+    } catch (error) {
+      console.error("Failed to load library info:", error)
+    } finally {
+      setIsLoading(false)
+    }
+  }, [loadLibrary])
+
+  // 每次打开时重新读取
+  useEffect(() => {
+    if (isOpen) {
+      refresh()
+    }
+  }, [isOpen, refresh])
+
+  const sortedVideos = useMemo(
+    () => [...videos].sort((a, b) => compareVideos(sortOrder, a, b)),
+    [videos, sortOrder],
+  )
+  const videosSize = videos.reduce((size, video) => size + video.size, 0)
+  const selectedSize = videos.reduce(
+    (size, video) => size + (selectedKeys.has(video.key) ? video.size : 0),
+    0,
+  )
+  const isAllSelected = videos.length > 0 && selectedKeys.size === videos.length
+
+  const toggleSelected = (key: string) => {
+    setSelectedKeys((keys) => {
+      const next = new Set(keys)
+      if (next.has(key)) {
+        next.delete(key)
+      } else {
+        next.add(key)
+      }
+      return next
+    })
+  }
+
+  const handleDelete = async () => {
+    if (
+      !window.confirm(
+        `确定删除选中的 ${selectedKeys.size} 个视频吗？字幕、笔记、书签等数据会一起删除，生词本保留。`,
+      )
+    ) {
+      return
+    }
+    await onDelete([...selectedKeys])
+    await refresh()
+  }
+
+  const handlePersist = async () => {
+    try {
+      const isGranted = await navigator.storage.persist()
+      setIsPersisted(isGranted)
+      if (!isGranted) {
+        alert("浏览器拒绝了持久存储申请，可以将本站加入书签或安装为应用后重试")
+      }
+    } catch (error) {
+      console.error("Failed to request persistent storage:", error)
+    }
+  }
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={({ open }) => !open && onClose()}>
+      <Portal>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content
+            bg="white"
+            rounded="2xl"
+            shadow="xl"
+            maxW="720px"
+            mx={4}
+          >
+            <Dialog.Header
+              pt={6}
+              px={6}
+              pb={4}
+              fontSize="lg"
+              fontWeight="600"
+              color="gray.800"
+            >
+              视频库管理
+            </Dialog.Header>
+
+            <Dialog.Body px={6} py={4}>
+              <VStack align="stretch" gap={3}>
+                <Box p={3} bg="gray.50" borderRadius="lg">
+                  <Text fontSize="sm" color="gray.700">
+                    {estimate?.usage !== undefined &&
+                    estimate.quota !== undefined
+                      ? `已用 ${formatBytes(estimate.usage)} / 可用 ${formatBytes(estimate.quota)}（${((estimate.usage / estimate.quota) * 100).toFixed(1)}%）`
+                      : "浏览器未提供存储用量信息"}
+                    ，其中视频文件 {formatBytes(videosSize)}
+                  </Text>
+                  {isPersisted !== null && (
+                    <HStack mt={2} justify="space-between">
+                      <Text fontSize="xs" color="gray.500">
+                        {isPersisted
+                          ? "已启用持久存储，浏览器不会自动清除这些数据"
+                          : "未启用持久存储，空间紧张时浏览器可能自动清除这些数据"}
+                      </Text>
+                      {!isPersisted && (
+                        <Button
+                          size="xs"
+                          variant="outline"
+                          onClick={handlePersist}
+                        >
+                          申请持久存储
+                        </Button>
+                      )}
+                    </HStack>
+                  )}
+                </Box>
+
+                <HStack justify="space-between">
+                  <HStack as="label" gap={1} fontSize="sm" color="gray.600">
+                    <input
+                      type="checkbox"
+                      checked={isAllSelected}
+                      disabled={videos.length === 0}
+                      onChange={(e) =>
+                        setSelectedKeys(
+                          new Set(
+                            e.target.checked
+                              ? videos.map((video) => video.key)
+                              : [],
+                          ),
+                        )
+                      }
+                    />
+                    全选
+                  </HStack>
+                  <HStack gap={1} fontSize="sm" color="gray.600">
+                    排序
+                    <select
+                      value={sortOrder}
+                      onChange={(e) =>
+                        setSortOrder(e.target.value as SortOrder)
+                      }
+                    >
+                      {Object.entries(SORT_LABELS).map(([value, label]) => (
+                        <option key={value} value={value}>
+                          {label}
+                        </option>
+                      ))}
+                    </select>
+                  </HStack>
+                </HStack>
+
+                <Box maxH="50vh" overflowY="auto">
+                  {sortedVideos.length === 0 ? (
+                    <Text fontSize="sm" color="gray.400" py={4}>
+                      {isLoading ? "正在读取…" : "库中还没有视频"}
+                    </Text>
+                  ) : (
+                    sortedVideos.map((video) => (
+                      <HStack
+                        key={video.key}
+                        as="label"
+                        align="start"
+                        gap={3}
+                        py={2}
+                        borderBottomWidth={1}
+                        borderColor="gray.100"
+                        cursor="pointer"
+                      >
+                        <input
+                          type="checkbox"
+                          checked={selectedKeys.has(video.key)}
+                          onChange={() => toggleSelected(video.key)}
+                          style={{ marginTop: 4 }}
+                        />
+                        <Box minW={0} flex={1}>
+                          <Text
+                            fontSize="sm"
+                            fontWeight="600"
+                            color="gray.800"
+                            truncate
+                          >
+                            {video.name}
+                            {video.key === currentVideoKey && (
+                              <Text
+                                as="span"
+                                ml={2}
+                                fontWeight="normal"
+                                color="blue.500"
+                              >
+                                当前
+                              </Text>
+                            )}
+                          </Text>
+                          <Text fontSize="xs" color="gray.500">
+                            {formatFileInfo(video.size, video.lastModified)} ·
+                            时长{" "}
+                            {video.duration !== undefined
+                              ? formatDuration(video.duration)
+                              : "未知"}{" "}
+                            · {video.subtitleCount} 条字幕
+                            {video.trackCount > 1 &&
+                              `（${video.trackCount} 条轨道）`}{" "}
+                            · 最近打开{" "}
+                            {video.lastOpenedAt !== undefined
+                              ? new Date(video.lastOpenedAt).toLocaleString()
+                              : "未知"}
+                          </Text>
+                        </Box>
+                      </HStack>
+                    ))
+                  )}
+                </Box>
+              </VStack>
+            </Dialog.Body>
+
+            <Dialog.Footer px={6} py={4} gap={3}>
+              <Dialog.CloseTrigger asChild>
+                <Button
+                  bg="gray.100"
+                  color="gray.700"
+                  fontSize="sm"
+                  fontWeight="500"
+                  h="40px"
+                  px={4}
+                  rounded="lg"
+                  _hover={{ bg: "gray.200" }}
+                  _active={{ bg: "gray.300" }}
+                >
+                  关闭
+                </Button>
+              </Dialog.CloseTrigger>
+              <Button
+                onClick={handleDelete}
+                disabled={selectedKeys.size === 0}
+                bg="red.500"
+                color="white"
+                fontSize="sm"
+                fontWeight="500"
+                h="40px"
+                px={4}
+                rounded="lg"
+                _hover={{ bg: "red.600" }}
+                _active={{ bg: "red.700" }}
+              >
+                删除选中
+                {selectedKeys.size > 0 &&
+                  `（${selectedKeys.size} 个，${formatBytes(selectedSize)}）`}
+              </Button>
+            </Dialog.Footer>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Portal>
+    </Dialog.Root>
+  )
+}
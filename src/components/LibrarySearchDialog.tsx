@@ -0,0 +1,233 @@
+import {
+  Box,
+  Button,
+  Dialog,
+  HStack,
+  Input,
+  Portal,
+  Text,
+  VStack,
+} from "@chakra-ui/react"
+import { useEffect, useMemo, useState } from "react"
+import type { LibraryTracks } from "../types"
+import {
+  type SearchOptions,
+  createSearchRegExp,
+  searchLibrary,
+} from "../utils/search"
+
+// 每个视频最多显示的结果数，避免常见词一次渲染上千条
+const MAX_HITS_PER_VIDEO = 50
+
+interface LibrarySearchDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  loadLibrary: () => Promise<LibraryTracks[]>
+  videoNames: Record<string, string>
+  onSelect: (videoKey: string, startTime: string) => void
+}
+
+export function LibrarySearchDialog({
+  isOpen,
+  onClose,
+  loadLibrary,
+  videoNames,
+  onSelect,
+}: LibrarySearchDialogProps) {
+  const [library, setLibrary] = useState<LibraryTracks[]>([])
+  const [isLoading, setIsLoading] = useState(false)
+  const [options, setOptions] = useState<SearchOptions>({
+    query: "",
+    isRegex: false,
+    isCaseSensitive: false,
+  })
+
+  // 每次打开时重新读取，保证包含最近导入和编辑的字幕
+  useEffect(() => {
+    if (!isOpen) return
+    setIsLoading(true)
+    loadLibrary()
+      .then(setLibrary)
+      .catch((error) => {
+        console.error("Failed to load subtitle library:", error)
+      })
+      .finally(() => setIsLoading(false))
+  }, [isOpen, loadLibrary])
+
+  const { regex, error } = useMemo(() => createSearchRegExp(options), [options])
+  const groups = useMemo(
+    () => (regex ? searchLibrary(library, regex) : []),
+    [library, regex],
+  )
+  const hitCount = groups.reduce((count, group) => count + group.hits.length, 0)
+
+  const handleSelect = (videoKey: string, startTime: string) => {
+    onSelect(videoKey, startTime)
+    onClose()
+  }
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={({ open }) => !open && onClose()}>
+      <Portal>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content
+            bg="white"
+            rounded="2xl"
+            shadow="xl"
+            maxW="720px"
+            mx={4}
+          >
+            <Dialog.Header
+              pt={6}
+              px={6}
+              pb={4}
+              fontSize="lg"
+              fontWeight="600"
+              color="gray.800"
+            >
+              全库搜索
+            </Dialog.Header>
+
+            <Dialog.Body px={6} py={4}>
+              <VStack align="stretch" gap={3}>
+                <HStack gap={3}>
+                  <Input
+                    size="sm"
+                    autoFocus
+                    placeholder="在所有视频的字幕中搜索"
+                    value={options.query}
+                    onChange={(e) =>
+                      setOptions({ ...options, query: e.target.value })
+                    }
+                  />
+                  <HStack
+                    as="label"
+                    gap={1}
+                    fontSize="sm"
+                    color="gray.600"
+                    title="正则表达式"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={options.isRegex}
+                      onChange={(e) =>
+                        setOptions({ ...options, isRegex: e.target.checked })
+                      }
+                    />
+                    .*
+                  </HStack>
+                  <HStack
+                    as="label"
+                    gap={1}
+                    fontSize="sm"
+                    color="gray.600"
+                    title="区分大小写"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={options.isCaseSensitive}
+                      onChange={(e) =>
+                        setOptions({
+                          ...options,
+                          isCaseSensitive: e.target.checked,
+                        })
+                      }
+                    />
+                    Aa
+                  </HStack>
+                </HStack>
+                <Text fontSize="xs" color={error ? "red.500" : "gray.500"}>
+                  {error ??
+                    (isLoading
+                      ? "正在读取字幕…"
+                      : `${library.length} 个视频 · ${hitCount} 条结果`)}
+                </Text>
+                <Box maxH="55vh" overflowY="auto">
+                  {groups.map((group) => (
+                    <Box key={group.videoKey} mb={4}>
+                      <Text
+                        fontSize="sm"
+                        fontWeight="600"
+                        color="gray.700"
+                        mb={1}
+                        truncate
+                      >
+                        {videoNames[group.videoKey] ?? group.videoKey}
+                        <Text
+                          as="span"
+                          ml={2}
+                          fontWeight="normal"
+                          color="gray.400"
+                        >
+                          {group.hits.length} 条
+                        </Text>
+                      </Text>
+                      {group.hits.slice(0, MAX_HITS_PER_VIDEO).map((hit) => (
+                        <HStack
+                          key={`${hit.trackId}-${hit.subtitle.id}`}
+                          align="start"
+                          gap={3}
+                          py={1.5}
+                          px={2}
+                          borderRadius="md"
+                          cursor="pointer"
+                          _hover={{ bg: "blue.50" }}
+                          onClick={() =>
+                            handleSelect(group.videoKey, hit.subtitle.startTime)
+                          }
+                        >
+                          <Text
+                            className="notranslate"
+                            fontSize="xs"
+                            color="blue.600"
+                            whiteSpace="nowrap"
+                            pt={0.5}
+                          >
+                            {hit.subtitle.startTime}
+                          </Text>
+                          <Box minW={0}>
+                            <Text fontSize="sm" color="gray.800">
+                              {hit.subtitle.text}
+                            </Text>
+                            <Text fontSize="xs" color="gray.400">
+                              {hit.trackLabel}
+                            </Text>
+                          </Box>
+                        </HStack>
+                      ))}
+                      {group.hits.length > MAX_HITS_PER_VIDEO && (
+                        <Text fontSize="xs" color="gray.400" px={2}>
+                          还有 {group.hits.length - MAX_HITS_PER_VIDEO}{" "}
+                          条结果未显示，请缩小搜索范围
+                        </Text>
+                      )}
+                    </Box>
+                  ))}
+                </Box>
+              </VStack>
+            </Dialog.Body>
+
+            <Dialog.Footer px={6} py={4}>
+              <Dialog.CloseTrigger asChild>
+                <Button
+                  bg="gray.100"
+                  color="gray.700"
+                  fontSize="sm"
+                  fontWeight="500"
+                  h="40px"
+                  px={4}
+                  rounded="lg"
+                  _hover={{ bg: "gray.200" }}
+                  _active={{ bg: "gray.300" }}
+                >
+                  关闭
+                </Button>
+              </Dialog.CloseTrigger>
+            </Dialog.Footer>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Portal>
+    </Dialog.Root>
+  )
+}
@@ -0,0 +1,141 @@
+import {
+  Badge,
+  Box,
+  Button,
+  HStack,
+  Input,
+  Text,
+  VStack,
+} from "@chakra-ui/react"
+import { useState } from "react"
+import type { CueLoop } from "../hooks/useCueLoop"
+
+interface LoopPanelProps {
+  loop: CueLoop
+  subtitleCount: number
+  currentSubtitleIndex: number
+}
+
+export function LoopPanel({
+  loop,
+  subtitleCount,
+  currentSubtitleIndex,
+}: LoopPanelProps) {
+  const [rangeFrom, setRangeFrom] = useState("")
+  const [rangeTo, setRangeTo] = useState("")
+
+  if (subtitleCount === 0) return null
+
+  const currentIndex = Math.max(0, currentSubtitleIndex)
+
+  const handleLoopRange = () => {
+    // 序号从 1 开始，留空表示当前句
+    const from = rangeFrom ? Number(rangeFrom) - 1 : currentIndex
+    const to = rangeTo ? Number(rangeTo) - 1 : from
+    if (Number.isNaN(from) || Number.isNaN(to)) return
+    loop.start(from, to)
+  }
+
+  return (
+    <Box
+      borderWidth={1}
+      borderRadius="lg"
+      p={4}
+      bg={loop.range ? "orange.50" : "white"}
+      borderColor={loop.range ? "orange.200" : "gray.200"}
+    >
+      <VStack align="stretch" gap={3}>
+        <HStack justify="space-between">
+          <Text fontSize="sm" fontWeight="medium" color="gray.700">
+            循环练习
+          </Text>
+          {loop.range && (
+            <Badge colorScheme="orange">
+              第 {loop.range.from + 1}
+              {loop.range.to !== loop.range.from && `-${loop.range.to + 1}`} 句
+              · 第 {loop.iteration + 1}
+              {loop.repeatCount > 0 && ` / ${loop.repeatCount}`} 遍
+            </Badge>
+          )}
+        </HStack>
+        <HStack gap={2}>
+          <Button
+            size="sm"
+            colorScheme="orange"
+            onClick={() => loop.start(currentIndex)}
+          >
+            循环当前句
+          </Button>
+          <Input
+            size="sm"
+            w="60px"
+            placeholder={String(currentIndex + 1)}
+            value={rangeFrom}
+            onChange={(e) => setRangeFrom(e.target.value)}
+          />
+          <Text fontSize="sm" color="gray.500">
+            —
+          </Text>
+          <Input
+            size="sm"
+            w="60px"
+            placeholder={rangeFrom || String(currentIndex + 1)}
+            value={rangeTo}
+            onChange={(e) => setRangeTo(e.target.value)}
+          />
+          <Button size="sm" variant="outline" onClick={handleLoopRange}>
+            循环范围
+          </Button>
+          {loop.range && (
+            <Button size="sm" variant="ghost" onClick={loop.stop}>
+              停止
+            </Button>
+          )}
+        </HStack>
+        <HStack gap={2} wrap="wrap">
+          <Text fontSize="sm" color="gray.600">
+            次数
+          </Text>
+          <Input
+            size="sm"
+            w="60px"
+            type="number"
+            min={0}
+            value={loop.repeatCount}
+            onChange={(e) =>
+              loop.setRepeatCount(Math.max(0, Number(e.target.value) || 0))
+            }
+          />
+          <Text fontSize="xs" color="gray.500">
+            (0 = 无限)
+          </Text>
+          <Text fontSize="sm" color="gray.600">
+            间隔
+          </Text>
+          <Input
+            size="sm"
+            w="60px"
+            type="number"
+            min={0}
+            step={0.5}
+            value={loop.gapSeconds}
+            onChange={(e) =>
+              loop.setGapSeconds(Math.max(0, Number(e.target.value) || 0))
+            }
+          />
+          <Text fontSize="sm" color="gray.500">
+            秒
+          </Text>
+        </HStack>
+        <HStack as="label" gap={2} fontSize="sm" color="gray.600">
+          <input
+            type="checkbox"
+            checked={loop.isAutoAdvance}
+            onChange={(e) => loop.setIsAutoAdvance(e.target.checked)}
+          />
+          重复完成后自动进入下一句
+        </HStack>
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,70 @@
+import { Badge, Box, Button, HStack, Text, VStack } from "@chakra-ui/react"
+
+export const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2]
+export const MIN_PLAYBACK_RATE = PLAYBACK_RATES[0]
+export const MAX_PLAYBACK_RATE = PLAYBACK_RATES[PLAYBACK_RATES.length - 1]
+
+interface PlaybackRatePanelProps {
+  playbackRate: number
+  onPlaybackRateChange: (rate: number) => void
+  isSlowReplayEnabled: boolean
+  onSlowReplayEnabledChange: (enabled: boolean) => void
+  slowReplayRate: number
+  onSlowReplayRateChange: (rate: number) => void
+}
+
+export function PlaybackRatePanel({
+  playbackRate,
+  onPlaybackRateChange,
+  isSlowReplayEnabled,
+  onSlowReplayEnabledChange,
+  slowReplayRate,
+  onSlowReplayRateChange,
+}: PlaybackRatePanelProps) {
+  return (
+    <Box borderWidth={1} borderRadius="lg" p={4}>
+      <VStack align="stretch" gap={3}>
+        <HStack justify="space-between">
+          <Text fontSize="sm" fontWeight="medium" color="gray.700">
+            播放速度
+          </Text>
+          <Badge colorScheme="blue">{playbackRate}×</Badge>
+        </HStack>
+        <HStack gap={1} wrap="wrap">
+          {PLAYBACK_RATES.map((rate) => (
+            <Button
+              key={rate}
+              size="xs"
+              variant={rate === playbackRate ? "solid" : "outline"}
+              colorScheme="blue"
+              onClick={() => onPlaybackRateChange(rate)}
+            >
+              {rate}×
+            </Button>
+          ))}
+        </HStack>
+        <HStack gap={2} wrap="wrap">
+          <HStack as="label" gap={2} fontSize="sm" color="gray.600">
+            <input
+              type="checkbox"
+              checked={isSlowReplayEnabled}
+              onChange={(e) => onSlowReplayEnabledChange(e.target.checked)}
+            />
+            按 R 重复时慢速播放
+          </HStack>
+          <select
+            value={slowReplayRate}
+            disabled={!isSlowReplayEnabled}
+            onChange={(e) => onSlowReplayRateChange(Number(e.target.value))}
+          >
+            {PLAYBACK_RATES.filter((rate) => rate < 1).map((rate) => (
+              <option key={rate} value={rate}>
+                {rate}×
+              </option>
+            ))}
+          </select>
+        </HStack>
+      </VStack>
+    </Box>
+  )
+}
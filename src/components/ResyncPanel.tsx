@@ -0,0 +1,168 @@
+import { Box, Button, HStack, Input, Text, VStack } from "@chakra-ui/react"
+import { useState } from "react"
+import type { Subtitle } from "../types"
+import { type SyncPoint, linearResync, shiftSubtitles } from "../utils/resync"
+import { secondsToTimeStr, timeToSeconds } from "../utils/time"
+
+interface ResyncPanelProps {
+  subtitles: Subtitle[]
+  currentTime: number
+  currentSubtitleIndex: number
+  onApply: (subtitles: Subtitle[]) => void
+}
+
+interface MarkedPoint extends SyncPoint {
+  cueIndex: number
+}
+
+export function ResyncPanel({
+  subtitles,
+  currentTime,
+  currentSubtitleIndex,
+  onApply,
+}: ResyncPanelProps) {
+  const [offsetMs, setOffsetMs] = useState("0")
+  const [rangeFrom, setRangeFrom] = useState("")
+  const [rangeTo, setRangeTo] = useState("")
+  const [cueNumberA, setCueNumberA] = useState("")
+  const [cueNumberB, setCueNumberB] = useState("")
+  const [pointA, setPointA] = useState<MarkedPoint | null>(null)
+  const [pointB, setPointB] = useState<MarkedPoint | null>(null)
+
+  if (subtitles.length === 0) return null
+
+  const handleShift = () => {
+    const offset = Number(offsetMs) / 1000
+    if (!offset || Number.isNaN(offset)) return
+    // 序号从 1 开始，留空表示第一条 / 最后一条
+    const from = rangeFrom ? Number(rangeFrom) - 1 : 0
+    const to = rangeTo ? Number(rangeTo) - 1 : subtitles.length - 1
+    if (Number.isNaN(from) || Number.isNaN(to) || from > to) return
+    onApply(shiftSubtitles(subtitles, offset, { from, to }))
+  }
+
+  // 用当前播放时间标记某条字幕实际应出现的时间
+  const markPoint = (cueNumber: string): MarkedPoint | null => {
+    const cueIndex = cueNumber
+      ? Number(cueNumber) - 1
+      : Math.max(0, currentSubtitleIndex)
+    const subtitle = subtitles[cueIndex]
+    if (!subtitle) return null
+    return {
+      cueIndex,
+      original: timeToSeconds(subtitle.startTime),
+      target: currentTime,
+    }
+  }
+
+  const handleLinearResync = () => {
+    if (!pointA || !pointB || pointA.original === pointB.original) return
+    onApply(linearResync(subtitles, pointA, pointB))
+    setPointA(null)
+    setPointB(null)
+  }
+
+  const renderPoint = (
+    label: string,
+    cueNumber: string,
+    setCueNumber: (value: string) => void,
+    point: MarkedPoint | null,
+    setPoint: (point: MarkedPoint | null) => void,
+  ) => (
+    <VStack align="stretch" gap={1}>
+      <HStack gap={2}>
+        <Text fontSize="sm" color="gray.600" w="40px">
+          {label}
+        </Text>
+        <Input
+          size="sm"
+          w="80px"
+          placeholder={String(Math.max(0, currentSubtitleIndex) + 1)}
+          value={cueNumber}
+          onChange={(e) => setCueNumber(e.target.value)}
+        />
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => setPoint(markPoint(cueNumber))}
+        >
+          标记为当前播放时间
+        </Button>
+      </HStack>
+      {point && (
+        <Text fontSize="xs" color="gray.500" pl="48px">
+          第 {point.cueIndex + 1} 条：{secondsToTimeStr(point.original)} →{" "}
+          {secondsToTimeStr(point.target)}
+        </Text>
+      )}
+    </VStack>
+  )
+
+  return (
+    <Box borderWidth={1} borderRadius="lg" p={4}>
+      <VStack align="stretch" gap={3}>
+        <Text fontSize="sm" fontWeight="medium" color="gray.700">
+          时间轴校准
+        </Text>
+        <VStack align="stretch" gap={2}>
+          <HStack gap={2}>
+            <Text fontSize="sm" color="gray.600">
+              偏移
+            </Text>
+            <Input
+              size="sm"
+              w="100px"
+              type="number"
+              step={100}
+              value={offsetMs}
+              onChange={(e) => setOffsetMs(e.target.value)}
+            />
+            <Text fontSize="sm" color="gray.500">
+              ms
+            </Text>
+          </HStack>
+          <HStack gap={2}>
+            <Text fontSize="sm" color="gray.600">
+              范围
+            </Text>
+            <Input
+              size="sm"
+              w="80px"
+              placeholder="1"
+              value={rangeFrom}
+              onChange={(e) => setRangeFrom(e.target.value)}
+            />
+            <Text fontSize="sm" color="gray.500">
+              —
+            </Text>
+            <Input
+              size="sm"
+              w="80px"
+              placeholder={String(subtitles.length)}
+              value={rangeTo}
+              onChange={(e) => setRangeTo(e.target.value)}
+            />
+            <Button size="sm" colorScheme="blue" onClick={handleShift}>
+              平移
+            </Button>
+          </HStack>
+        </VStack>
+        <VStack align="stretch" gap={2}>
+          <Text fontSize="xs" color="gray.500">
+            两点校准：播放到某条字幕真正开始的位置时标记，两点标记后按比例调整全部字幕
+          </Text>
+          {renderPoint("A 点", cueNumberA, setCueNumberA, pointA, setPointA)}
+          {renderPoint("B 点", cueNumberB, setCueNumberB, pointB, setPointB)}
+          <Button
+            size="sm"
+            colorScheme="blue"
+            onClick={handleLinearResync}
+            disabled={!pointA || !pointB || pointA.original === pointB.original}
+          >
+            应用两点校准
+          </Button>
+        </VStack>
+      </VStack>
+    </Box>
+  )
+}
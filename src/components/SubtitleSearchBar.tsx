@@ -0,0 +1,131 @@
+import { Box, Button, HStack, Icon, Input, Text } from "@chakra-ui/react"
+import type { RefObject } from "react"
+import { MdKeyboardArrowDown, MdKeyboardArrowUp } from "react-icons/md"
+import type { SearchOptions } from "../utils/search"
+
+interface SubtitleSearchBarProps {
+  inputRef: RefObject<HTMLInputElement | null>
+  options: SearchOptions
+  onOptionsChange: (options: SearchOptions) => void
+  error?: string
+  matchCount: number
+  hitCount: number
+  // 当前字幕在命中列表中的位置，从 1 开始，0 表示当前字幕不是命中
+  activeHit: number
+  onPrevious: () => void
+  onNext: () => void
+}
+
+export function SubtitleSearchBar({
+  inputRef,
+  options,
+  onOptionsChange,
+  error,
+  matchCount,
+  hitCount,
+  activeHit,
+  onPrevious,
+  onNext,
+}: SubtitleSearchBarProps) {
+  return (
+    <Box
+      className="notranslate"
+      position="sticky"
+      top={0}
+      zIndex={1}
+      mx={-4}
+      mt={-4}
+      mb={3}
+      px={4}
+      py={2}
+      bg="white"
+      borderBottomWidth={1}
+      borderColor="gray.100"
+    >
+      <HStack gap={2}>
+        <Input
+          ref={inputRef}
+          size="sm"
+          placeholder="搜索字幕 (/)"
+          value={options.query}
+          onChange={(e) =>
+            onOptionsChange({ ...options, query: e.target.value })
+          }
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault()
+              if (e.shiftKey) {
+                onPrevious()
+              } else {
+                onNext()
+              }
+            } else if (e.key === "Escape") {
+              e.currentTarget.blur()
+            }
+          }}
+          {...(error && { ring: 1, ringColor: "red.400" })}
+        />
+        <HStack
+          as="label"
+          gap={1}
+          fontSize="sm"
+          color="gray.600"
+          title="正则表达式"
+        >
+          <input
+            type="checkbox"
+            checked={options.isRegex}
+            onChange={(e) =>
+              onOptionsChange({ ...options, isRegex: e.target.checked })
+            }
+          />
+          .*
+        </HStack>
+        <HStack
+          as="label"
+          gap={1}
+          fontSize="sm"
+          color="gray.600"
+          title="区分大小写"
+        >
+          <input
+            type="checkbox"
+            checked={options.isCaseSensitive}
+            onChange={(e) =>
+              onOptionsChange({ ...options, isCaseSensitive: e.target.checked })
+            }
+          />
+          Aa
+        </HStack>
+        <Text fontSize="xs" color="gray.500" whiteSpace="nowrap" minW="80px">
+          {options.query &&
+            !error &&
+            `${activeHit || "-"} / ${hitCount} 句 · ${matchCount} 处`}
+        </Text>
+        <Button
+          size="xs"
+          variant="ghost"
+          onClick={onPrevious}
+          disabled={hitCount === 0}
+          title="上一个 (Shift+N)"
+        >
+          <Icon as={MdKeyboardArrowUp} />
+        </Button>
+        <Button
+          size="xs"
+          variant="ghost"
+          onClick={onNext}
+          disabled={hitCount === 0}
+          title="下一个 (N)"
+        >
+          <Icon as={MdKeyboardArrowDown} />
+        </Button>
+      </HStack>
+      {error && (
+        <Text mt={1} fontSize="xs" color="red.500">
+          {error}
+        </Text>
+      )}
+    </Box>
+  )
+}
@@ -0,0 +1,113 @@
+import {
+  Badge,
+  Box,
+  Button,
+  Flex,
+  HStack,
+  Text,
+  VStack,
+} from "@chakra-ui/react"
+import type { SubtitleTrack } from "../types"
+import { SUBTITLE_FILE_ACCEPT } from "../utils/subtitleFormat"
+
+interface SubtitleTracksPanelProps {
+  tracks: SubtitleTrack[]
+  hiddenTrackIds: string[]
+  onToggleVisibility: (trackId: string) => void
+  onSetPrimary: (trackId: string) => void
+  onDelete: (trackId: string) => void
+  onAddTrack: (e: React.ChangeEvent<HTMLInputElement>) => void
+}
+
+export function SubtitleTracksPanel({
+  tracks,
+  hiddenTrackIds,
+  onToggleVisibility,
+  onSetPrimary,
+  onDelete,
+  onAddTrack,
+}: SubtitleTracksPanelProps) {
+  return (
+    <Box borderWidth={1} borderRadius="lg" p={4}>
+      <Flex justify="space-between" align="center" mb={2}>
+        <Text fontSize="sm" fontWeight="medium" color="gray.700">
+          字幕轨道
+        </Text>
+        <Button as="label" size="xs" variant="outline" cursor="pointer">
+          添加轨道
+          <input
+            type="file"
+            accept={SUBTITLE_FILE_ACCEPT}
+            onChange={onAddTrack}
+            style={{ display: "none" }}
+          />
+        </Button>
+      </Flex>
+      <VStack align="stretch" gap={2}>
+        {tracks.length === 0 && (
+          <Text fontSize="sm" color="gray.500">
+            暂无字幕
+          </Text>
+        )}
+        {tracks.map((track, index) => {
+          const isVisible = !hiddenTrackIds.includes(track.id)
+          return (
+            <Flex
+              key={track.id}
+              justify="space-between"
+              align="center"
+              gap={2}
+              p={2}
+              borderWidth={1}
+              borderRadius="md"
+              bg={index === 0 ? "blue.50" : "white"}
+              borderColor={index === 0 ? "blue.100" : "gray.200"}
+            >
+              <HStack gap={2} flex={1} minW={0}>
+                {index === 0 && <Badge colorScheme="blue">主</Badge>}
+                <Text
+                  fontSize="sm"
+                  overflow="hidden"
+                  textOverflow="ellipsis"
+                  whiteSpace="nowrap"
+                  color={isVisible ? "gray.800" : "gray.400"}
+                >
+                  {track.label}
+                </Text>
+                <Text fontSize="xs" color="gray.400" flexShrink={0}>
+                  {track.subtitles.length} 条
+                </Text>
+              </HStack>
+              <HStack gap={1} flexShrink={0}>
+                <Button
+                  size="xs"
+                  variant="ghost"
+                  onClick={() => onToggleVisibility(track.id)}
+                >
+                  {isVisible ? "隐藏" : "显示"}
+                </Button>
+                {index !== 0 && (
+                  <Button
+                    size="xs"
+                    variant="ghost"
+                    onClick={() => onSetPrimary(track.id)}
+                  >
+                    设为主轨道
+                  </Button>
+                )}
+                <Button
+                  size="xs"
+                  variant="ghost"
+                  colorScheme="red"
+                  onClick={() => onDelete(track.id)}
+                >
+                  删除
+                </Button>
+              </HStack>
+            </Flex>
+          )
+        })}
+      </VStack>
+    </Box>
+  )
+}
@@ -0,0 +1,132 @@
+import { Button, Dialog, Portal, Text } from "@chakra-ui/react"
+import { formatFileInfo } from "../utils/format"
+
+interface VideoFileInfo {
+  size: number
+  lastModified: number
+}
+
+interface VideoNameConflictDialogProps {
+  isOpen: boolean
+  onClose: () => void
+  fileName: string
+  existingVideo?: VideoFileInfo
+  newVideo?: VideoFileInfo
+  // 用新文件替换原视频，原视频的字幕等数据转给新文件
+  onReplace: () => void
+  // 作为另一个视频导入，两者同名共存
+  onKeepBoth: () => void
+}
+
+export function VideoNameConflictDialog({
+  isOpen,
+  onClose,
+  fileName,
+  existingVideo,
+  newVideo,
+  onReplace,
+  onKeepBoth,
+}: VideoNameConflictDialogProps) {
+  const handleReplace = () => {
+    onReplace()
+    onClose()
+  }
+
+  const handleKeepBoth = () => {
+    onKeepBoth()
+    onClose()
+  }
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={({ open }) => !open && onClose()}>
+      <Portal>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content
+            bg="white"
+            rounded="2xl"
+            shadow="xl"
+            maxW="480px"
+            mx={4}
+          >
+            <Dialog.Header
+              pt={6}
+              px={6}
+              pb={4}
+              fontSize="lg"
+              fontWeight="600"
+              color="gray.800"
+            >
+              已有同名视频
+            </Dialog.Header>
+
+            <Dialog.Body px={6} py={4}>
+              <Text fontSize="sm" color="gray.700">
+                库中已有名为「{fileName}」的视频，但文件内容不同。
+              </Text>
+              {existingVideo && newVideo && (
+                <Text mt={2} fontSize="sm" color="gray.700">
+                  库中：
+                  {formatFileInfo(
+                    existingVideo.size,
+                    existingVideo.lastModified,
+                  )}
+                  <br />
+                  新文件：{formatFileInfo(newVideo.size, newVideo.lastModified)}
+                </Text>
+              )}
+              <Text mt={2} fontSize="sm" color="gray.500">
+                替换：删除原视频文件，原有的字幕、笔记、书签等转给新文件。
+                <br />
+                保留两者：作为新视频导入，原视频不受影响，列表中以大小和日期区分。
+              </Text>
+            </Dialog.Body>
+
+            <Dialog.Footer px={6} py={4} gap={3}>
+              <Dialog.CloseTrigger asChild>
+                <Button
+                  bg="gray.100"
+                  color="gray.700"
+                  fontSize="sm"
+                  fontWeight="500"
+                  h="40px"
+                  px={4}
+                  rounded="lg"
+                  _hover={{ bg: "gray.200" }}
+                  _active={{ bg: "gray.300" }}
+                >
+                  取消
+                </Button>
+              </Dialog.CloseTrigger>
+              <Button
+                onClick={handleKeepBoth}
+                variant="outline"
+                fontSize="sm"
+                fontWeight="500"
+                h="40px"
+                px={4}
+                rounded="lg"
+              >
+                保留两者
+              </Button>
+              <Button
+                onClick={handleReplace}
+                bg="blue.500"
+                color="white"
+                fontSize="sm"
+                fontWeight="500"
+                h="40px"
+                px={4}
+                rounded="lg"
+                _hover={{ bg: "blue.600" }}
+                _active={{ bg: "blue.700" }}
+              >
+                替换
+              </Button>
+            </Dialog.Footer>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Portal>
+    </Dialog.Root>
+  )
+}
@@ -0,0 +1,183 @@
+import {
+  Box,
+  Button,
+  Dialog,
+  HStack,
+  Icon,
+  Input,
+  Portal,
+  Text,
+  VStack,
+} from "@chakra-ui/react"
+import { useMemo, useState } from "react"
+import { MdDelete } from "react-icons/md"
+import type { VocabularyEntry } from "../types"
+
+interface VocabularyNotebookProps {
+  isOpen: boolean
+  onClose: () => void
+  entries: VocabularyEntry[]
+  currentVideoKey: string
+  // 库中视频的名称；已删除视频的条目无法回到原处播放
+  videoNames: Record<string, string>
+  onPlay: (entry: VocabularyEntry) => void
+  onDelete: (entry: VocabularyEntry) => void
+}
+
+export function VocabularyNotebook({
+  isOpen,
+  onClose,
+  entries,
+  currentVideoKey,
+  videoNames,
+  onPlay,
+  onDelete,
+}: VocabularyNotebookProps) {
+  const [query, setQuery] = useState("")
+  const [isCurrentVideoOnly, setIsCurrentVideoOnly] = useState(false)
+
+  const filteredEntries = useMemo(() => {
+    const keyword = query.trim().toLowerCase()
+    return entries
+      .filter(
+        (entry) =>
+          (!isCurrentVideoOnly || entry.videoKey === currentVideoKey) &&
+          (!keyword ||
+            entry.term.toLowerCase().includes(keyword) ||
+            entry.sentence.toLowerCase().includes(keyword)),
+      )
+      .sort((a, b) => b.createdAt - a.createdAt)
+  }, [entries, query, isCurrentVideoOnly, currentVideoKey])
+
+  const handlePlay = (entry: VocabularyEntry) => {
+    onPlay(entry)
+    onClose()
+  }
+
+  return (
+    <Dialog.Root open={isOpen} onOpenChange={({ open }) => !open && onClose()}>
+      <Portal>
+        <Dialog.Backdrop />
+        <Dialog.Positioner>
+          <Dialog.Content
+            bg="white"
+            rounded="2xl"
+            shadow="xl"
+            maxW="640px"
+            mx={4}
+          >
+            <Dialog.Header
+              pt={6}
+              px={6}
+              pb={4}
+              fontSize="lg"
+              fontWeight="600"
+              color="gray.800"
+            >
+              生词本
+            </Dialog.Header>
+
+            <Dialog.Body px={6} py={4}>
+              <VStack align="stretch" gap={3}>
+                <HStack gap={3}>
+                  <Input
+                    size="sm"
+                    placeholder="搜索单词或例句"
+                    value={query}
+                    onChange={(e) => setQuery(e.target.value)}
+                  />
+                  <HStack
+                    as="label"
+                    gap={1}
+                    fontSize="sm"
+                    color="gray.600"
+                    whiteSpace="nowrap"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={isCurrentVideoOnly}
+                      onChange={(e) => setIsCurrentVideoOnly(e.target.checked)}
+                    />
+                    仅当前视频
+                  </HStack>
+                </HStack>
+                <Text fontSize="xs" color="gray.500">
+                  共 {filteredEntries.length} 条
+                </Text>
+                <Box maxH="50vh" overflowY="auto">
+                  {filteredEntries.length === 0 ? (
+                    <Text fontSize="sm" color="gray.400" py={4}>
+                      {entries.length === 0
+                        ? "在字幕中选中单词或短语即可加入生词本"
+                        : "没有匹配的条目"}
+                    </Text>
+                  ) : (
+                    filteredEntries.map((entry) => (
+                      <Box
+                        key={entry.id}
+                        py={2}
+                        borderBottomWidth={1}
+                        borderColor="gray.100"
+                      >
+                        <HStack justify="space-between" align="start">
+                          <Box minW={0}>
+                            <Text fontWeight="600" color="gray.800">
+                              {entry.term}
+                            </Text>
+                            <Text fontSize="sm" color="gray.600">
+                              {entry.sentence}
+                            </Text>
+                            <Text fontSize="xs" color="gray.400" truncate>
+                              {videoNames[entry.videoKey] ?? "（已删除的视频）"}{" "}
+                              · {entry.startTime}
+                            </Text>
+                          </Box>
+                          <HStack gap={1} flexShrink={0}>
+                            <Button
+                              size="xs"
+                              variant="outline"
+                              onClick={() => handlePlay(entry)}
+                              disabled={!(entry.videoKey in videoNames)}
+                            >
+                              在原处播放
+                            </Button>
+                            <Button
+                              size="xs"
+                              variant="ghost"
+                              onClick={() => onDelete(entry)}
+                              title="删除"
+                            >
+                              <Icon as={MdDelete} />
+                            </Button>
+                          </HStack>
+                        </HStack>
+                      </Box>
+                    ))
+                  )}
+                </Box>
+              </VStack>
+            </Dialog.Body>
+
+            <Dialog.Footer px={6} py={4}>
+              <Dialog.CloseTrigger asChild>
+                <Button
+                  bg="gray.100"
+                  color="gray.700"
+                  fontSize="sm"
+                  fontWeight="500"
+                  h="40px"
+                  px={4}
+                  rounded="lg"
+                  _hover={{ bg: "gray.200" }}
+                  _active={{ bg: "gray.300" }}
+                >
+                  关闭
+                </Button>
+              </Dialog.CloseTrigger>
+            </Dialog.Footer>
+          </Dialog.Content>
+        </Dialog.Positioner>
+      </Portal>
+    </Dialog.Root>
+  )
+}
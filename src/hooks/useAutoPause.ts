@@ -0,0 +1,103 @@
+import { useLocalStorageState } from "ahooks"
+import { useCallback, useEffect, useRef } from "react"
+import {
+  type CueTime,
+  type CueTimeline,
+  findActiveCueIndexes,
+} from "../utils/cueTimeline"
+
+// 离开字幕超过这么多秒才检测到（例如用户跳转），不再暂停
+const PAUSE_TOLERANCE = 0.5
+
+interface UseAutoPauseOptions {
+  timeline: CueTimeline
+  setIsPlaying: (isPlaying: boolean) => void
+}
+
+/**
+ * 每句结束时自动暂停，方便跟读；可选在一段与字幕时长成比例的停顿后自动继续。
+ */
+export function useAutoPause({ timeline, setIsPlaying }: UseAutoPauseOptions) {
+  const [isEnabled, setIsEnabled] = useLocalStorageState("isAutoPauseEnabled", {
+    defaultValue: false,
+  })
+  const [isAutoResume, setIsAutoResume] = useLocalStorageState(
+    "isAutoPauseResume",
+    {
+      defaultValue: false,
+    },
+  )
+  // 自动继续前的停顿 = 字幕时长 × resumeFactor
+  const [resumeFactor, setResumeFactor] = useLocalStorageState(
+    "autoPauseResumeFactor",
+    {
+      defaultValue: 1,
+    },
+  )
+  const activeIndexRef = useRef<number | null>(null)
+  const resumeTimeoutRef = useRef<number | null>(null)
+
+  // 取消等待中的自动继续，用户手动暂停、播放或跳转时调用
+  const cancelResume = useCallback(() => {
+    if (resumeTimeoutRef.current) {
+      window.clearTimeout(resumeTimeoutRef.current)
+      resumeTimeoutRef.current = null
+    }
+  }, [])
+
+  // Cleanup timeout on unmount
+  useEffect(() => cancelResume, [cancelResume])
+
+  const pauseAfter = (cue: CueTime) => {
+    setIsPlaying(false)
+    if (!isAutoResume) return
+    const duration = cue.end - cue.start
+    cancelResume()
+    resumeTimeoutRef.current = window.setTimeout(
+      () => {
+        resumeTimeoutRef.current = null
+        setIsPlaying(true)
+      },
+      Math.max(0, duration * resumeFactor * 1000),
+    )
+  }
+
+  const handleProgress = (playedSeconds: number) => {
+    if (!isEnabled) return
+
+    const activeIndex =
+      findActiveCueIndexes(timeline, playedSeconds).find(
+        (index) => playedSeconds < timeline.times[index].end,
+      ) ?? -1
+    const previousIndex = activeIndexRef.current
+    activeIndexRef.current = activeIndex === -1 ? null : activeIndex
+    if (previousIndex === null || previousIndex === activeIndex) return
+
+    // 刚刚离开上一句（而不是跳转到了别处）
+    const previous = timeline.times[previousIndex]
+    if (!previous) return
+    const { end } = previous
+    if (playedSeconds >= end && playedSeconds < end + PAUSE_TOLERANCE) {
+      pauseAfter(previous)
+    }
+  }
+
+  const toggle = () => {
+    activeIndexRef.current = null
+    cancelResume()
+    setIsEnabled(!isEnabled)
+  }
+
+  return {
+    isEnabled,
+    toggle,
+    isAutoResume,
+    setIsAutoResume,
+    resumeFactor,
+    setResumeFactor,
+    handleProgress,
+    cancelResume,
+  }
+}
+
+export type AutoPause = ReturnType<typeof useAutoPause>
@@ -0,0 +1,161 @@
+import { useLocalStorageState } from "ahooks"
+import { type RefObject, useEffect, useRef, useState } from "react"
+import type ReactPlayer from "react-player"
+import type { Subtitle, SubtitleRange } from "../types"
+import { timeToSeconds } from "../utils/time"
+
+// 播放位置超出循环范围（早于开始或晚于结束）这么多秒，视为用户主动跳走，结束循环
+const LOOP_LEAVE_TOLERANCE = 1
+
+interface UseCueLoopOptions {
+  subtitles: Subtitle[]
+  playerRef: RefObject<ReactPlayer | null>
+  setIsPlaying: (isPlaying: boolean) => void
+}
+
+/**
+ * A-B 循环：循环播放一条或一段字幕，可设置重复次数（0 为无限）、
+ * 每遍之间的停顿，以及重复完成后自动前进到下一段。
+ */
+export function useCueLoop({
+  subtitles,
+  playerRef,
+  setIsPlaying,
+}: UseCueLoopOptions) {
+  const [range, setRange] = useState<SubtitleRange | null>(null)
+  // 已经完整播放的遍数
+  const [iteration, setIteration] = useState(0)
+  const [repeatCount, setRepeatCount] = useLocalStorageState(
+    "loopRepeatCount",
+    {
+      defaultValue: 3,
+    },
+  )
+  const [gapSeconds, setGapSeconds] = useLocalStorageState("loopGapSeconds", {
+    defaultValue: 1,
+  })
+  const [isAutoAdvance, setIsAutoAdvance] = useLocalStorageState(
+    "isLoopAutoAdvance",
+    {
+      defaultValue: false,
+    },
+  )
+  // 停顿或跳转尚未生效期间，忽略进度回调
+  const isWaitingRef = useRef(false)
+  const gapTimeoutRef = useRef<number | null>(null)
+  // 上一次进度回调的播放位置，用于判断是否往回跳
+  const lastPlayedSecondsRef = useRef(0)
+
+  const clearGapTimeout = () => {
+    if (gapTimeoutRef.current) {
+      window.clearTimeout(gapTimeoutRef.current)
+      gapTimeoutRef.current = null
+    }
+  }
+
+  // Cleanup timeout on unmount
+  useEffect(() => {
+    return () => {
+      if (gapTimeoutRef.current) {
+        window.clearTimeout(gapTimeoutRef.current)
+      }
+    }
+  }, [])
+
+  const seekAndPlay = (seconds: number) => {
+    isWaitingRef.current = true
+    playerRef.current?.seekTo(seconds, "seconds")
+    setIsPlaying(true)
+  }
+
+  const start = (from: number, to = from) => {
+    const startCue = subtitles[from]
+    if (!startCue || !subtitles[to] || from > to) return
+    clearGapTimeout()
+    setRange({ from, to })
+    setIteration(0)
+    seekAndPlay(timeToSeconds(startCue.startTime))
+  }
+
+  const stop = () => {
+    clearGapTimeout()
+    isWaitingRef.current = false
+    setRange(null)
+    setIteration(0)
+  }
+
+  const handleProgress = (playedSeconds: number) => {
+    const lastPlayedSeconds = lastPlayedSecondsRef.current
+    lastPlayedSecondsRef.current = playedSeconds
+    if (!range) return
+    const startCue = subtitles[range.from]
+    const endCue = subtitles[range.to]
+    if (!startCue || !endCue) {
+      stop()
+      return
+    }
+    const loopStart = timeToSeconds(startCue.startTime)
+    const loopEnd = timeToSeconds(endCue.endTime)
+
+    if (isWaitingRef.current) {
+      // 跳转已生效
+      if (playedSeconds < loopEnd) {
+        isWaitingRef.current = false
+      }
+      return
+    }
+    // 自动前进到下一段后，播放位置也会暂时在开始之前，但仍在向前走
+    const isSeekedBefore =
+      playedSeconds < loopStart - LOOP_LEAVE_TOLERANCE &&
+      playedSeconds < lastPlayedSeconds
+    if (isSeekedBefore || playedSeconds > loopEnd + LOOP_LEAVE_TOLERANCE) {
+      stop()
+      return
+    }
+    if (playedSeconds < loopEnd) return
+
+    const completed = iteration + 1
+    if (repeatCount > 0 && completed >= repeatCount) {
+      const size = range.to - range.from
+      if (isAutoAdvance && range.to + 1 < subtitles.length) {
+        // 继续往下播放即可进入下一段
+        setRange({
+          from: range.to + 1,
+          to: Math.min(subtitles.length - 1, range.to + 1 + size),
+        })
+        setIteration(0)
+      } else {
+        stop()
+      }
+      return
+    }
+
+    setIteration(completed)
+    if (gapSeconds > 0) {
+      isWaitingRef.current = true
+      setIsPlaying(false)
+      gapTimeoutRef.current = window.setTimeout(() => {
+        gapTimeoutRef.current = null
+        seekAndPlay(loopStart)
+      }, gapSeconds * 1000)
+    } else {
+      seekAndPlay(loopStart)
+    }
+  }
+
+  return {
+    range,
+    iteration,
+    repeatCount,
+    setRepeatCount,
+    gapSeconds,
+    setGapSeconds,
+    isAutoAdvance,
+    setIsAutoAdvance,
+    start,
+    stop,
+    handleProgress,
+  }
+}
+
+export type CueLoop = ReturnType<typeof useCueLoop>
@@ -0,0 +1,149 @@
+import {
+  type RefObject,
+  useCallback,
+  useEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react"
+
+interface UseVirtualListOptions {
+  // 滚动容器
+  containerRef: RefObject<HTMLElement | null>
+  // 列表本身，容器中列表上方可能还有其他内容（如搜索栏）
+  listRef: RefObject<HTMLElement | null>
+  // 每一项的唯一 key，测量到的高度按 key 缓存，过滤后仍然有效
+  keys: string[]
+  // 未测量项的估计高度（像素）
+  estimateSize: number
+  // 可视区域上下额外渲染的像素
+  overscan?: number
+}
+
+// offsets 中最后一个不大于 value 的位置
+const findOffsetIndex = (offsets: number[], value: number) => {
+  let low = 0
+  let high = offsets.length - 2
+  let result = 0
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (offsets[mid] <= value) {
+      result = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return result
+}
+
+/**
+ * 只渲染可视区域附近的列表项，其余部分用上下留白占位。
+ * 列表项高度不固定：渲染后用 ResizeObserver 测量并缓存，
+ * 未测量的项按估计高度计算。
+ */
+export function useVirtualList({
+  containerRef,
+  listRef,
+  keys,
+  estimateSize,
+  overscan = 800,
+}: UseVirtualListOptions) {
+  const sizesRef = useRef(new Map<string, number>())
+  const itemObserverRef = useRef<ResizeObserver | null>(null)
+  const [measureVersion, setMeasureVersion] = useState(0)
+  const [viewport, setViewport] = useState({ scrollTop: 0, height: 0 })
+
+  // offsets[i] 为第 i 项顶部到列表顶部的距离，最后一个元素是列表总高度
+  // biome-ignore lint/correctness/useExhaustiveDependencies: 测量结果保存在 ref 中，measureVersion 变化时需要重新计算
+  const offsets = useMemo(() => {
+    const result = [0]
+    for (const key of keys) {
+      result.push(
+        result[result.length - 1] + (sizesRef.current.get(key) ?? estimateSize),
+      )
+    }
+    return result
+  }, [keys, estimateSize, measureVersion])
+
+  useEffect(() => {
+    const container = containerRef.current
+    if (!container) return
+    let frame = 0
+    const update = () => {
+      cancelAnimationFrame(frame)
+      frame = requestAnimationFrame(() =>
+        setViewport({
+          scrollTop: container.scrollTop,
+          height: container.clientHeight,
+        }),
+      )
+    }
+    update()
+    container.addEventListener("scroll", update, { passive: true })
+    const observer = new ResizeObserver(update)
+    observer.observe(container)
+    return () => {
+      cancelAnimationFrame(frame)
+      container.removeEventListener("scroll", update)
+      observer.disconnect()
+    }
+  }, [containerRef])
+
+  useEffect(() => {
+    return () => itemObserverRef.current?.disconnect()
+  }, [])
+
+  // 作为列表项的 ref 使用，列表项需要带上 data-virtual-key 属性
+  const measureElement = useCallback((element: HTMLElement | null) => {
+    if (!element) return
+    if (!itemObserverRef.current) {
+      itemObserverRef.current = new ResizeObserver((entries) => {
+        let isChanged = false
+        for (const entry of entries) {
+          const target = entry.target as HTMLElement
+          const key = target.dataset.virtualKey
+          if (key === undefined || !target.isConnected) continue
+          if (sizesRef.current.get(key) !== target.offsetHeight) {
+            sizesRef.current.set(key, target.offsetHeight)
+            isChanged = true
+          }
+        }
+        if (isChanged) {
+          setMeasureVersion((version) => version + 1)
+        }
+      })
+    }
+    const observer = itemObserverRef.current
+    observer.observe(element)
+    return () => observer.unobserve(element)
+  }, [])
+
+  const listTop = listRef.current?.offsetTop ?? 0
+  const totalSize = offsets[offsets.length - 1]
+  const visibleTop = viewport.scrollTop - listTop - overscan
+  const visibleBottom =
+    viewport.scrollTop + viewport.height - listTop + overscan
+  const start = keys.length > 0 ? findOffsetIndex(offsets, visibleTop) : 0
+  const end = keys.length > 0 ? findOffsetIndex(offsets, visibleBottom) : -1
+
+  // 直接跳到第 index 项并居中，用于目标项尚未渲染的情况
+  const scrollToIndex = (index: number) => {
+    const container = containerRef.current
+    if (!container || index < 0 || index >= keys.length) return
+    const size = offsets[index + 1] - offsets[index]
+    container.scrollTop =
+      listTop + offsets[index] - (container.clientHeight - size) / 2
+  }
+
+  return {
+    start,
+    end,
+    paddingTop: offsets[start],
+    paddingBottom: totalSize - offsets[end + 1],
+    measureElement,
+    scrollToIndex,
+  }
+}
+
+export type VirtualList = ReturnType<typeof useVirtualList>
@@ -0,0 +1,114 @@
+export interface Subtitle {
+  id: number
+  startTime: string
+  endTime: string
+  text: string
+  // 稳定的 cue key，见 getCueKey；解析文件得到的字幕还没有
+  key?: string
+}
+
+export interface SubtitleParseWarning {
+  // 1-based 行号，指向原始文件
+  line: number
+  message: string
+}
+
+export interface SubtitleParseResult {
+  subtitles: Subtitle[]
+  warnings: SubtitleParseWarning[]
+}
+
+// 一个视频可以挂载多条字幕轨道（如原文 + 译文），第一条为主轨道
+export interface SubtitleTrack {
+  id: string
+  label: string
+  subtitles: Subtitle[]
+}
+
+// 字幕编辑历史（按视频保存），每一项是某次编辑前全部轨道的快照
+export interface EditHistory {
+  past: SubtitleTrack[][]
+  future: SubtitleTrack[][]
+}
+
+// 一段连续的字幕，from / to 为包含两端的下标
+export interface SubtitleRange {
+  from: number
+  to: number
+}
+
+// 听写记录，按 cue key 保存每条字幕最近一次的结果
+export interface DictationRecord {
+  answer: string
+  accuracy: number
+  attempts: number
+  updatedAt: number
+}
+
+export type DictationResults = Record<string, DictationRecord>
+
+export interface ClozeRecord {
+  // 最近一次填对的空数 / 总空数
+  correct: number
+  total: number
+  attempts: number
+  // 累计填错的空数，用于找出最需要复习的字幕
+  mistakes: number
+  updatedAt: number
+}
+
+// 完形填空数据，按视频保存
+export interface ClozeData {
+  // 用户标记的词（已规范化），用于"标记的词"挖空策略
+  markedWords: string[]
+  results: Record<string, ClozeRecord>
+}
+
+// 生词本条目，不随视频删除，跨视频共享
+export interface VocabularyEntry {
+  id: string
+  term: string
+  // 词所在的字幕原文
+  sentence: string
+  videoKey: string
+  startTime: string
+  endTime: string
+  createdAt: number
+}
+
+export type CueDifficulty = "easy" | "medium" | "hard"
+
+// 字幕书签，存在即表示已收藏
+export interface CueBookmark {
+  // 0 表示未评分，最高 5 星
+  rating: number
+  difficulty: CueDifficulty | null
+  updatedAt: number
+}
+
+export type CueBookmarks = Record<string, CueBookmark>
+
+// 每条字幕的个人笔记，按 cue key 保存，与字幕文本分开存储
+export type CueNotes = Record<string, string>
+
+// 某个视频的全部字幕轨道
+export interface LibraryTracks {
+  videoKey: string
+  tracks: SubtitleTrack[]
+}
+
+// 视频的附加信息，单独存储，更新时不必重写视频文件
+export interface VideoMeta {
+  duration?: number
+  lastOpenedAt?: number
+}
+
+// 视频库管理中显示的一行
+export interface LibraryVideoInfo extends VideoMeta {
+  key: string
+  name: string
+  size: number
+  lastModified: number
+  subtitleCount: number
+  trackCount: number
+}
@@ -0,0 +1,83 @@
+import type { Subtitle } from "../types"
+import { timeToSeconds } from "./time"
+
+export interface AlignedPair {
+  primary: Subtitle
+  // 与主字幕时间重叠最多的副轨道字幕，可能是多条（分句方式不同）
+  secondary: Subtitle[]
+}
+
+interface TimeRange {
+  index: number
+  start: number
+  end: number
+}
+
+const toRanges = (subtitles: Subtitle[]): TimeRange[] =>
+  subtitles
+    .map((subtitle, index) => ({
+      index,
+      start: timeToSeconds(subtitle.startTime),
+      end: timeToSeconds(subtitle.endTime),
+    }))
+    .filter((range) => !Number.isNaN(range.start) && !Number.isNaN(range.end))
+    .sort((a, b) => a.start - b.start)
+
+const getOverlap = (a: TimeRange, b: TimeRange) =>
+  Math.min(a.end, b.end) - Math.max(a.start, b.start)
+
+/**
+ * 按时间重叠把副轨道对齐到主轨道。
+ * 每条副字幕只归属于与它重叠时间最长的那条主字幕，
+ * 因此一条主字幕下面可以合并多条副字幕；没有任何重叠的副字幕会被忽略。
+ * 返回值与主轨道下标一一对应。
+ */
+export function alignTracks(
+  primary: Subtitle[],
+  secondary: Subtitle[],
+): AlignedPair[] {
+  const pairs: AlignedPair[] = primary.map((subtitle) => ({
+    primary: subtitle,
+    secondary: [],
+  }))
+  const primaryRanges = toRanges(primary)
+  // 主字幕按开始时间排序后，结束时间的前缀最大值用于二分查找起点
+  const maxEndSoFar: number[] = []
+  for (const [i, range] of primaryRanges.entries()) {
+    maxEndSoFar[i] = Math.max(range.end, i > 0 ? maxEndSoFar[i - 1] : 0)
+  }
+
+  for (const secondaryRange of toRanges(secondary)) {
+    // 找到第一条结束时间可能晚于副字幕开始时间的主字幕
+    let low = 0
+    let high = primaryRanges.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (maxEndSoFar[middle] <= secondaryRange.start) {
+        low = middle + 1
+      } else {
+        high = middle
+      }
+    }
+
+    let bestRange: TimeRange | null = null
+    let bestOverlap = 0
+    for (
+      let i = low;
+      i < primaryRanges.length && primaryRanges[i].start < secondaryRange.end;
+      i++
+    ) {
+      const overlap = getOverlap(primaryRanges[i], secondaryRange)
+      if (overlap > bestOverlap) {
+        bestOverlap = overlap
+        bestRange = primaryRanges[i]
+      }
+    }
+
+    if (bestRange) {
+      pairs[bestRange.index].secondary.push(secondary[secondaryRange.index])
+    }
+  }
+
+  return pairs
+}
@@ -0,0 +1,98 @@
+import type { Subtitle, VocabularyEntry } from "../types"
+import { getBaseName } from "./download"
+
+// 一张 Anki 卡片；音频文件名会以 [sound:...] 的形式附在背面
+export interface AnkiCard {
+  front: string
+  back: string
+  tags: string[]
+  audio?: {
+    fileName: string
+    videoKey: string
+    startTime: string
+    endTime: string
+  }
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;")
+
+// 字段内不能出现制表符和换行，换行改用 <br>
+const toField = (html: string) =>
+  html.replace(/\t/g, " ").replace(/\r?\n/g, "<br>")
+
+export const toAnkiTag = (text: string) =>
+  text.trim().replace(/\s+/g, "_") || "untitled"
+
+/**
+ * 音频文件会放进 Anki 的全局媒体目录，文件名需要在所有视频之间唯一。
+ * 同名视频可以共存，所以在名称后加上内容标识的前几位。
+ */
+export const getAnkiAudioFileName = (
+  videoName: string,
+  videoKey: string,
+  startTime: string,
+) => {
+  const shortId = videoKey
+    .replace(/^video-/, "")
+    .replace(/[^\w-]/g, "")
+    .slice(0, 8)
+  return `${toAnkiTag(getBaseName(videoName))}_${shortId}_${startTime.replace(/[:,.]/g, "-")}.wav`
+}
+
+export const createVocabularyCard = (
+  entry: VocabularyEntry,
+  videoName: string,
+): AnkiCard => ({
+  front: entry.term,
+  back: entry.sentence,
+  tags: ["vocabulary", getBaseName(videoName)],
+  audio: {
+    fileName: getAnkiAudioFileName(videoName, entry.videoKey, entry.startTime),
+    videoKey: entry.videoKey,
+    startTime: entry.startTime,
+    endTime: entry.endTime,
+  },
+})
+
+// 收藏的字幕：正面是原文，背面是翻译等补充内容
+export const createCueCard = (
+  subtitle: Subtitle,
+  videoKey: string,
+  videoName: string,
+  back: string,
+  tags: string[],
+): AnkiCard => ({
+  front: subtitle.text,
+  back,
+  tags: ["bookmark", getBaseName(videoName), ...tags],
+  audio: {
+    fileName: getAnkiAudioFileName(videoName, videoKey, subtitle.startTime),
+    videoKey,
+    startTime: subtitle.startTime,
+    endTime: subtitle.endTime,
+  },
+})
+
+/**
+ * 生成 Anki 可直接导入的制表符分隔文本：正面、背面、标签三列。
+ * 文件头的 # 行告诉 Anki 分隔符、HTML 字段和标签所在列。
+ * 只有实际生成了的音频文件（audioFileNames）才会写入 [sound:...]。
+ */
+export const serializeAnkiTSV = (
+  cards: AnkiCard[],
+  audioFileNames: ReadonlySet<string> = new Set(),
+) => {
+  const lines = cards.map((card) => {
+    const back =
+      card.audio && audioFileNames.has(card.audio.fileName)
+        ? `${escapeHtml(card.back)}<br>[sound:${card.audio.fileName}]`
+        : escapeHtml(card.back)
+    return [
+      toField(escapeHtml(card.front)),
+      toField(back),
+      card.tags.map(toAnkiTag).join(" "),
+    ].join("\t")
+  })
+  return ["#separator:tab", "#html:true", "#tags column:3", ...lines].join("\n")
+}
@@ -0,0 +1,209 @@
+import type {
+  Subtitle,
+  SubtitleParseResult,
+  SubtitleParseWarning,
+} from "../types"
+import { secondsToTimeStr } from "./time"
+
+// SSA v4 使用 Marked 代替 Layer，缺少 Format 行时按 ASS 默认字段处理
+const DEFAULT_EVENT_FORMAT = [
+  "layer",
+  "start",
+  "end",
+  "style",
+  "name",
+  "marginl",
+  "marginr",
+  "marginv",
+  "effect",
+  "text",
+]
+
+// H:MM:SS.cc（厘秒）
+const ASS_TIME_REGEX = /^(\d+):(\d{1,2}):(\d{1,2})(?:\.(\d{1,3}))?$/
+
+interface AssDialogue {
+  line: number
+  layer: number
+  style: string
+  start: number
+  end: number
+  text: string
+}
+
+export interface AssEventSummary {
+  styles: Array<{ name: string; count: number }>
+  layers: Array<{ layer: number; count: number }>
+}
+
+export interface AssImportOptions {
+  // 未指定时导入全部样式 / 图层
+  styles?: string[]
+  layers?: number[]
+}
+
+export function isASS(content: string): boolean {
+  return /^\s*\[(Script Info|V4\+? Styles|Events)\]/im.test(content)
+}
+
+const assTimeToSeconds = (time: string): number => {
+  const match = time.trim().match(ASS_TIME_REGEX)
+  if (!match) return Number.NaN
+  const [, hours, minutes, secs, fraction = "0"] = match
+  return (
+    Number.parseInt(hours) * 3600 +
+    Number.parseInt(minutes) * 60 +
+    Number.parseInt(secs) +
+    Number.parseInt(fraction.padEnd(3, "0")) / 1000
+  )
+}
+
+/**
+ * 去掉 {\i1} 之类的覆盖标签，并把 \N、\n、\h 转换为换行或空格。
+ * 绘图模式（{\p1} ... {\p0}）中的内容是矢量指令而非文本，一并丢弃。
+ */
+export const stripAssTags = (text: string): string => {
+  let result = ""
+  let isDrawing = false
+  for (const part of text.split(/(\{[^}]*\})/)) {
+    if (part.startsWith("{") && part.endsWith("}")) {
+      const drawingMatch = part.match(/\\p(\d+)/)
+      if (drawingMatch) {
+        isDrawing = drawingMatch[1] !== "0"
+      }
+      continue
+    }
+    if (!isDrawing) {
+      result += part
+    }
+  }
+  return result
+    .replace(/\\N/g, "\n")
+    .replace(/\\n/g, "\n")
+    .replace(/\\h/g, " ")
+    .split("\n")
+    .map((line) => line.trim())
+    .filter((line) => line !== "")
+    .join("\n")
+}
+
+const readDialogues = (
+  content: string,
+): { dialogues: AssDialogue[]; warnings: SubtitleParseWarning[] } => {
+  const dialogues: AssDialogue[] = []
+  const warnings: SubtitleParseWarning[] = []
+  const lines = content.replace(/^\uFEFF/, "").split(/\r\n?|\n/)
+
+  let inEvents = false
+  let format = DEFAULT_EVENT_FORMAT
+
+  lines.forEach((rawLine, index) => {
+    const line = rawLine.trim()
+    const lineNumber = index + 1
+
+    const sectionMatch = line.match(/^\[(.+)\]$/)
+    if (sectionMatch) {
+      inEvents = sectionMatch[1].toLowerCase() === "events"
+      return
+    }
+    if (!inEvents) return
+
+    if (/^format\s*:/i.test(line)) {
+      format = line
+        .slice(line.indexOf(":") + 1)
+        .split(",")
+        .map((field) => field.trim().toLowerCase())
+      return
+    }
+    if (!/^dialogue\s*:/i.test(line)) return
+
+    // Text 是最后一个字段，其中可能包含逗号
+    const values = line.slice(line.indexOf(":") + 1).split(",")
+    if (values.length < format.length) {
+      warnings.push({
+        line: lineNumber,
+        message: "Dialogue 字段数量不足，已跳过",
+      })
+      return
+    }
+    const fields: Record<string, string> = {}
+    format.forEach((field, i) => {
+      fields[field] =
+        i === format.length - 1 ? values.slice(i).join(",") : values[i].trim()
+    })
+
+    const start = assTimeToSeconds(fields.start ?? "")
+    const end = assTimeToSeconds(fields.end ?? "")
+    if (Number.isNaN(start) || Number.isNaN(end)) {
+      warnings.push({ line: lineNumber, message: "时间格式无法识别，已跳过" })
+      return
+    }
+    if (end < start) {
+      warnings.push({
+        line: lineNumber,
+        message: "结束时间早于开始时间，已跳过",
+      })
+      return
+    }
+
+    dialogues.push({
+      line: lineNumber,
+      layer: Number.parseInt(fields.layer ?? "0") || 0,
+      style: fields.style ?? "",
+      start,
+      end,
+      text: fields.text ?? "",
+    })
+  })
+
+  return { dialogues, warnings }
+}
+
+export function getAssEventSummary(content: string): AssEventSummary {
+  const { dialogues } = readDialogues(content)
+  const styleCounts = new Map<string, number>()
+  const layerCounts = new Map<number, number>()
+  for (const dialogue of dialogues) {
+    styleCounts.set(dialogue.style, (styleCounts.get(dialogue.style) ?? 0) + 1)
+    layerCounts.set(dialogue.layer, (layerCounts.get(dialogue.layer) ?? 0) + 1)
+  }
+  return {
+    styles: [...styleCounts].map(([name, count]) => ({ name, count })),
+    layers: [...layerCounts]
+      .map(([layer, count]) => ({ layer, count }))
+      .sort((a, b) => a.layer - b.layer),
+  }
+}
+
+export function parseASS(
+  content: string,
+  { styles, layers }: AssImportOptions = {},
+): SubtitleParseResult {
+  const { dialogues, warnings } = readDialogues(content)
+
+  const entries = dialogues
+    .filter(
+      (dialogue) =>
+        (!styles || styles.includes(dialogue.style)) &&
+        (!layers || layers.includes(dialogue.layer)),
+    )
+    .flatMap((dialogue) => {
+      const text = stripAssTags(dialogue.text)
+      return text ? [{ ...dialogue, text }] : []
+    })
+    // ASS 中的 Dialogue 不保证按时间排序
+    .sort((a, b) => a.start - b.start || a.line - b.line)
+
+  const subtitles: Subtitle[] = entries.map((entry, index) => ({
+    id: index + 1,
+    startTime: secondsToTimeStr(entry.start),
+    endTime: secondsToTimeStr(entry.end),
+    text: entry.text,
+  }))
+
+  if (dialogues.length === 0) {
+    warnings.push({ line: 1, message: "未找到 [Events] 中的 Dialogue 行" })
+  }
+
+  return { subtitles, warnings }
+}
@@ -0,0 +1,66 @@
+// 从导入的媒体文件中截取音频片段，全部在浏览器本地完成
+
+export const decodeMediaAudio = async (blob: Blob): Promise<AudioBuffer> => {
+  const context = new AudioContext()
+  try {
+    return await context.decodeAudioData(await blob.arrayBuffer())
+  } finally {
+    await context.close()
+  }
+}
+
+const writeString = (view: DataView, offset: number, value: string) => {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i))
+  }
+}
+
+/**
+ * 把 buffer 中 [startSeconds, endSeconds) 的部分编码为 16 位 PCM WAV。
+ * 超出音频范围的部分会被裁掉。
+ */
+export const encodeWavClip = (
+  buffer: AudioBuffer,
+  startSeconds: number,
+  endSeconds: number,
+): Blob => {
+  const { sampleRate, numberOfChannels } = buffer
+  const startFrame = Math.max(0, Math.floor(startSeconds * sampleRate))
+  const endFrame = Math.min(buffer.length, Math.ceil(endSeconds * sampleRate))
+  const frameCount = Math.max(0, endFrame - startFrame)
+  const blockAlign = numberOfChannels * 2
+  const dataSize = frameCount * blockAlign
+
+  const view = new DataView(new ArrayBuffer(44 + dataSize))
+  writeString(view, 0, "RIFF")
+  view.setUint32(4, 36 + dataSize, true)
+  writeString(view, 8, "WAVE")
+  writeString(view, 12, "fmt ")
+  view.setUint32(16, 16, true)
+  view.setUint16(20, 1, true)
+  view.setUint16(22, numberOfChannels, true)
+  view.setUint32(24, sampleRate, true)
+  view.setUint32(28, sampleRate * blockAlign, true)
+  view.setUint16(32, blockAlign, true)
+  view.setUint16(34, 16, true)
+  writeString(view, 36, "data")
+  view.setUint32(40, dataSize, true)
+
+  const channels = Array.from({ length: numberOfChannels }, (_, i) =>
+    buffer.getChannelData(i),
+  )
+  let offset = 44
+  for (let frame = startFrame; frame < endFrame; frame++) {
+    for (const channel of channels) {
+      const sample = Math.max(-1, Math.min(1, channel[frame]))
+      view.setInt16(
+        offset,
+        sample < 0 ? sample * 0x8000 : sample * 0x7fff,
+        true,
+      )
+      offset += 2
+    }
+  }
+
+  return new Blob([view], { type: "audio/wav" })
+}
@@ -0,0 +1,106 @@
+import type { Subtitle } from "../types"
+import { normalizeWord, tokenizeWords } from "./wordDiff"
+
+export type ClozeStrategy = "random" | "frequency" | "marked"
+
+export interface ClozePart {
+  text: string
+  // 挖空的部分才有，对应 answers 中的下标
+  blankIndex?: number
+}
+
+export interface ClozeItem {
+  parts: ClozePart[]
+  answers: string[]
+}
+
+export interface ClozeOptions {
+  strategy: ClozeStrategy
+  // 挖空的词所占比例
+  ratio: number
+  frequency: Map<string, number>
+  markedWords: string[]
+  // 随机挖空的种子，相同种子得到相同结果
+  seed: string
+}
+
+// 统计整条字幕中每个词出现的次数
+export function buildWordFrequency(subtitles: Subtitle[]) {
+  const frequency = new Map<string, number>()
+  for (const subtitle of subtitles) {
+    for (const word of tokenizeWords(subtitle.text)) {
+      frequency.set(word.normalized, (frequency.get(word.normalized) ?? 0) + 1)
+    }
+  }
+  return frequency
+}
+
+// 基于字符串的简单伪随机数，保证重新渲染时挖空位置不变
+const createRandom = (seed: string) => {
+  let state = 0
+  for (const char of seed) {
+    state = (state * 31 + char.charCodeAt(0)) | 0
+  }
+  return () => {
+    state = (state * 1103515245 + 12345) | 0
+    return ((state >>> 16) & 0x7fff) / 0x8000
+  }
+}
+
+/**
+ * 按策略挑选要挖空的词：
+ * - random：随机挑选
+ * - frequency：优先挖掉在整条字幕中出现次数最少的词（通常是生词）
+ * - marked：只挖掉用户标记过的词
+ */
+export function createCloze(text: string, options: ClozeOptions): ClozeItem {
+  const words = tokenizeWords(text).filter(
+    (word) => !/^\d+$/.test(word.normalized),
+  )
+  const blankCount = Math.max(1, Math.round(words.length * options.ratio))
+
+  let selected: typeof words
+  if (options.strategy === "marked") {
+    selected = words.filter((word) =>
+      options.markedWords.includes(word.normalized),
+    )
+  } else if (options.strategy === "frequency") {
+    selected = [...words]
+      .sort(
+        (a, b) =>
+          (options.frequency.get(a.normalized) ?? 0) -
+            (options.frequency.get(b.normalized) ?? 0) ||
+          b.normalized.length - a.normalized.length,
+      )
+      .slice(0, blankCount)
+  } else {
+    const random = createRandom(options.seed)
+    selected = words
+      .map((word) => ({ word, order: random() }))
+      .sort((a, b) => a.order - b.order)
+      .slice(0, blankCount)
+      .map(({ word }) => word)
+  }
+
+  const blankPositions = new Set(selected.map((word) => word.index))
+  const parts: ClozePart[] = []
+  const answers: string[] = []
+  let cursor = 0
+  for (const word of tokenizeWords(text)) {
+    if (!blankPositions.has(word.index)) continue
+    if (word.index > cursor) {
+      parts.push({ text: text.slice(cursor, word.index) })
+    }
+    parts.push({ text: word.text, blankIndex: answers.length })
+    answers.push(word.text)
+    cursor = word.index + word.text.length
+  }
+  if (cursor < text.length) {
+    parts.push({ text: text.slice(cursor) })
+  }
+
+  return { parts, answers }
+}
+
+export const isClozeAnswerCorrect = (expected: string, actual: string) =>
+  normalizeWord(expected) === normalizeWord(actual)
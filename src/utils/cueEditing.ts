@@ -0,0 +1,129 @@
+import type { Subtitle } from "../types"
+import { createCueKey } from "./cueKey"
+import { secondsToTimeStr, timeToSeconds } from "./time"
+
+// 新插入字幕的默认时长
+const DEFAULT_CUE_DURATION = 2
+
+// 结构性编辑之后统一按顺序重新编号
+export const renumberSubtitles = (subtitles: Subtitle[]): Subtitle[] =>
+  subtitles.map((subtitle, index) =>
+    subtitle.id === index + 1 ? subtitle : { ...subtitle, id: index + 1 },
+  )
+
+// 按比例在最近的空格/换行处拆分文本，没有空白时按字符拆分（如中文）
+const splitText = (text: string, ratio: number): [string, string] => {
+  const target = Math.round(text.length * ratio)
+  const breakpoints = [...text.matchAll(/\s+/g)].map(
+    (match) => match.index ?? 0,
+  )
+  if (breakpoints.length > 0) {
+    const breakpoint = breakpoints.reduce((best, current) =>
+      Math.abs(current - target) < Math.abs(best - target) ? current : best,
+    )
+    return [text.slice(0, breakpoint).trim(), text.slice(breakpoint).trim()]
+  }
+  const index = Math.min(Math.max(target, 1), text.length - 1)
+  return [text.slice(0, index), text.slice(index)]
+}
+
+/**
+ * 在 index 之后插入一条空字幕（index 为 -1 时插入到最前面）。
+ * 默认紧接上一条字幕开始，结束时间不超过下一条的开始时间。
+ */
+export function insertSubtitleAfter(
+  subtitles: Subtitle[],
+  index: number,
+  startSeconds?: number,
+): { subtitles: Subtitle[]; inserted: Subtitle } {
+  const previous = subtitles[index]
+  const next = subtitles[index + 1]
+  const start = startSeconds ?? (previous ? timeToSeconds(previous.endTime) : 0)
+  const nextStart = next
+    ? timeToSeconds(next.startTime)
+    : Number.POSITIVE_INFINITY
+  const end = Math.max(start, Math.min(start + DEFAULT_CUE_DURATION, nextStart))
+
+  const inserted: Subtitle = {
+    id: 0,
+    startTime: secondsToTimeStr(start),
+    endTime: secondsToTimeStr(end),
+    text: "",
+    key: createCueKey(),
+  }
+  const result = renumberSubtitles([
+    ...subtitles.slice(0, index + 1),
+    inserted,
+    ...subtitles.slice(index + 1),
+  ])
+  return { subtitles: result, inserted: result[index + 1] }
+}
+
+export function deleteSubtitle(
+  subtitles: Subtitle[],
+  index: number,
+): Subtitle[] {
+  return renumberSubtitles(subtitles.filter((_, i) => i !== index))
+}
+
+/**
+ * 在 atSeconds 处把一条字幕拆成两条；拆分点不在字幕时间范围内时从中间拆分。
+ * 文本按时间比例在最近的词边界处拆开。
+ */
+export function splitSubtitle(
+  subtitles: Subtitle[],
+  index: number,
+  atSeconds?: number,
+): Subtitle[] {
+  const subtitle = subtitles[index]
+  if (!subtitle) return subtitles
+  const start = timeToSeconds(subtitle.startTime)
+  const end = timeToSeconds(subtitle.endTime)
+  if (end <= start) return subtitles
+
+  const splitAt =
+    atSeconds !== undefined && atSeconds > start && atSeconds < end
+      ? atSeconds
+      : (start + end) / 2
+  const lines = subtitle.text.split("\n")
+  const [firstText, secondText] =
+    lines.length > 1
+      ? [
+          lines.slice(0, Math.ceil(lines.length / 2)).join("\n"),
+          lines.slice(Math.ceil(lines.length / 2)).join("\n"),
+        ]
+      : splitText(subtitle.text, (splitAt - start) / (end - start))
+
+  return renumberSubtitles([
+    ...subtitles.slice(0, index),
+    { ...subtitle, endTime: secondsToTimeStr(splitAt), text: firstText },
+    // 前半句沿用原来的 key 和关联数据
+    {
+      ...subtitle,
+      key: createCueKey(),
+      startTime: secondsToTimeStr(splitAt),
+      text: secondText,
+    },
+    ...subtitles.slice(index + 1),
+  ])
+}
+
+// 与下一条字幕合并
+export function mergeWithNext(
+  subtitles: Subtitle[],
+  index: number,
+): Subtitle[] {
+  const subtitle = subtitles[index]
+  const next = subtitles[index + 1]
+  if (!subtitle || !next) return subtitles
+
+  return renumberSubtitles([
+    ...subtitles.slice(0, index),
+    {
+      ...subtitle,
+      endTime: next.endTime,
+      text: [subtitle.text, next.text].filter(Boolean).join("\n"),
+    },
+    ...subtitles.slice(index + 2),
+  ])
+}
@@ -0,0 +1,110 @@
+import type { Subtitle, SubtitleTrack } from "../types"
+import { timeToSeconds } from "./time"
+
+// 重新导入时，开始时间相差不超过这个秒数且文本相同的字幕视为同一条
+const REIMPORT_MATCH_TOLERANCE = 1
+
+/**
+ * 与字幕文本分开保存的数据（听写记录、书签、笔记等）用 cue key 关联到字幕。
+ * key 保存在字幕上，调整时间、拆分合并、重新编号后都不变。
+ * 旧数据中的字幕没有 key，按开始时间关联。
+ */
+export const getCueKey = (subtitle: Subtitle) =>
+  subtitle.key ?? subtitle.startTime
+
+// 新插入或拆分出来的字幕使用随机 key，避免接手其他字幕留下的数据
+export const createCueKey = () => crypto.randomUUID()
+
+const groupBy = (subtitles: Subtitle[], getGroup: (s: Subtitle) => string) => {
+  const groups = new Map<string, Subtitle[]>()
+  for (const subtitle of subtitles) {
+    const group = getGroup(subtitle)
+    const members = groups.get(group)
+    if (members) {
+      members.push(subtitle)
+    } else {
+      groups.set(group, [subtitle])
+    }
+  }
+  return groups
+}
+
+/**
+ * 在被替换的旧字幕中找新字幕对应的那一条，依次尝试：
+ * 开始时间相同、开始时间等于旧字幕 key（即校准前的原始时间）、
+ * 文本相同且开始时间相近。已被其他字幕接手的旧字幕跳过。
+ */
+const createPreviousCueFinder = (
+  previous: Subtitle[],
+  claimedKeys: Set<string>,
+) => {
+  const byStart = groupBy(previous, (subtitle) => subtitle.startTime)
+  const byKey = groupBy(previous, getCueKey)
+  const byText = groupBy(previous, (subtitle) => subtitle.text.trim())
+  const isAvailable = (candidate: Subtitle) =>
+    !claimedKeys.has(getCueKey(candidate))
+
+  return (subtitle: Subtitle) => {
+    const exactMatch =
+      byStart.get(subtitle.startTime)?.find(isAvailable) ??
+      byKey.get(subtitle.startTime)?.find(isAvailable)
+    if (exactMatch) return exactMatch
+
+    const start = timeToSeconds(subtitle.startTime)
+    let bestMatch: Subtitle | undefined
+    let bestDistance = REIMPORT_MATCH_TOLERANCE
+    for (const candidate of byText.get(subtitle.text.trim()) ?? []) {
+      if (!isAvailable(candidate)) continue
+      const distance = Math.abs(timeToSeconds(candidate.startTime) - start)
+      if (distance <= bestDistance) {
+        bestMatch = candidate
+        bestDistance = distance
+      }
+    }
+    return bestMatch
+  }
+}
+
+/**
+ * 给没有 key 或 key 重复的字幕补上 key：
+ * - 传入 previous（被替换的旧字幕）时，优先沿用对应旧字幕的 key，
+ *   这样重新导入时间略有不同的字幕后数据仍然对应；
+ * - 否则使用开始时间（与旧数据兼容），开始时间重复时加上序号。
+ * 没有需要补的字幕时原样返回。
+ */
+export function assignCueKeys(
+  subtitles: Subtitle[],
+  previous: Subtitle[] = [],
+): Subtitle[] {
+  // 先保留已有的 key，重复的只保留第一条
+  const usedKeys = new Set<string>()
+  const isKept = subtitles.map((subtitle) => {
+    if (subtitle.key === undefined || usedKeys.has(subtitle.key)) return false
+    usedKeys.add(subtitle.key)
+    return true
+  })
+  if (isKept.every(Boolean)) return subtitles
+
+  // 旧字幕的 key 只能由匹配到的新字幕接手
+  const reservedKeys = new Set(previous.map(getCueKey))
+  const findPreviousCue = createPreviousCueFinder(previous, usedKeys)
+  return subtitles.map((subtitle, index) => {
+    if (isKept[index]) return subtitle
+    const previousCue = findPreviousCue(subtitle)
+    let key = previousCue ? getCueKey(previousCue) : subtitle.startTime
+    if (!previousCue && reservedKeys.has(key)) {
+      key = createCueKey()
+    }
+    for (let n = 2; usedKeys.has(key); n++) {
+      key = `${subtitle.startTime}#${n}`
+    }
+    usedKeys.add(key)
+    return { ...subtitle, key }
+  })
+}
+
+export const assignTrackCueKeys = (tracks: SubtitleTrack[]) =>
+  tracks.map((track) => {
+    const subtitles = assignCueKeys(track.subtitles)
+    return subtitles === track.subtitles ? track : { ...track, subtitles }
+  })
@@ -0,0 +1,93 @@
+import type { Subtitle } from "../types"
+import { timeToSeconds } from "./time"
+
+export interface CueTime {
+  start: number
+  end: number
+}
+
+// 字幕时间预先解析成秒数，播放进度回调中不再重复解析字符串
+export interface CueTimeline {
+  times: CueTime[]
+  // maxEnds[i] 为前 i + 1 条字幕中最晚的结束时间，用于处理重叠字幕
+  maxEnds: number[]
+  // 字幕未按开始时间排序时无法二分查找，退回线性扫描
+  isSorted: boolean
+}
+
+export const createCueTimeline = (subtitles: Subtitle[]): CueTimeline => {
+  const times = subtitles.map((subtitle) => ({
+    start: timeToSeconds(subtitle.startTime),
+    end: timeToSeconds(subtitle.endTime),
+  }))
+  const maxEnds: number[] = []
+  let isSorted = true
+  times.forEach((time, index) => {
+    maxEnds.push(
+      Math.max(time.end, maxEnds[index - 1] ?? Number.NEGATIVE_INFINITY),
+    )
+    if (index > 0 && time.start < times[index - 1].start) {
+      isSorted = false
+    }
+  })
+  return { times, maxEnds, isSorted }
+}
+
+// 最后一条已经开始的字幕，没有则返回 -1
+export const findLastStartedIndex = (
+  { times, isSorted }: CueTimeline,
+  seconds: number,
+): number => {
+  if (!isSorted) {
+    for (let i = times.length - 1; i >= 0; i--) {
+      if (times[i].start <= seconds) return i
+    }
+    return -1
+  }
+  let low = 0
+  let high = times.length - 1
+  let result = -1
+  while (low <= high) {
+    const mid = (low + high) >> 1
+    if (times[mid].start <= seconds) {
+      result = mid
+      low = mid + 1
+    } else {
+      high = mid - 1
+    }
+  }
+  return result
+}
+
+/**
+ * 所有包含 seconds 的字幕序号（升序）。
+ * 先二分找到最后一条已开始的字幕，再向前扫描，
+ * 直到前面所有字幕的最晚结束时间都早于 seconds 为止。
+ */
+export const findActiveCueIndexes = (
+  timeline: CueTimeline,
+  seconds: number,
+): number[] => {
+  const { times, maxEnds, isSorted } = timeline
+  if (!isSorted) {
+    return times.flatMap((time, index) =>
+      seconds >= time.start && seconds <= time.end ? [index] : [],
+    )
+  }
+  const indexes: number[] = []
+  for (
+    let i = findLastStartedIndex(timeline, seconds);
+    i >= 0 && maxEnds[i] >= seconds;
+    i--
+  ) {
+    if (times[i].end >= seconds) {
+      indexes.push(i)
+    }
+  }
+  return indexes.reverse()
+}
+
+// 正在播放的字幕；两句之间的空隙里取上一句
+export const findCurrentCueIndex = (timeline: CueTimeline, seconds: number) =>
+  findActiveCueIndexes(timeline, seconds)[0] ??
+  findLastStartedIndex(timeline, seconds)
@@ -0,0 +1,23 @@
+export const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.href = url
+  link.download = fileName
+  link.click()
+  URL.revokeObjectURL(url)
+}
+
+export const downloadTextFile = (
+  fileName: string,
+  content: string,
+  mimeType = "text/plain",
+) => {
+  downloadBlob(
+    fileName,
+    new Blob([content], { type: `${mimeType};charset=utf-8` }),
+  )
+}
+
+// 去掉视频文件名的扩展名，作为导出文件的基础名
+export const getBaseName = (fileName: string) =>
+  fileName.replace(/\.[^./\\]+$/, "") || "subtitles"
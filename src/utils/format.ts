@@ -0,0 +1,24 @@
+const BYTE_UNITS = ["B", "KB", "MB", "GB", "TB"]
+
+export const formatBytes = (bytes: number) => {
+  let value = bytes
+  let unit = 0
+  while (value >= 1024 && unit < BYTE_UNITS.length - 1) {
+    value /= 1024
+    unit++
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${BYTE_UNITS[unit]}`
+}
+
+// 区分同名视频用：文件大小和修改日期
+export const formatFileInfo = (size: number, lastModified: number) =>
+  `${formatBytes(size)} · ${new Date(lastModified).toLocaleDateString()}`
+
+// 时长显示为 H:MM:SS 或 M:SS
+export const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds)
+  const h = Math.floor(total / 3600)
+  const m = Math.floor((total % 3600) / 60)
+  const s = String(total % 60).padStart(2, "0")
+  return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`
+}
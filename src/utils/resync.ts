@@ -0,0 +1,54 @@
+import type { Subtitle, SubtitleRange } from "../types"
+import { secondsToTimeStr, timeToSeconds } from "./time"
+
+export interface SyncPoint {
+  // 字幕当前的时间
+  original: number
+  // 字幕应该出现的时间（标记时的播放时间）
+  target: number
+}
+
+const mapSubtitleTimes = (
+  subtitles: Subtitle[],
+  mapTime: (seconds: number) => number,
+  range?: SubtitleRange,
+): Subtitle[] =>
+  subtitles.map((subtitle, index) => {
+    if (range && (index < range.from || index > range.to)) return subtitle
+    return {
+      ...subtitle,
+      startTime: secondsToTimeStr(
+        Math.max(0, mapTime(timeToSeconds(subtitle.startTime))),
+      ),
+      endTime: secondsToTimeStr(
+        Math.max(0, mapTime(timeToSeconds(subtitle.endTime))),
+      ),
+    }
+  })
+
+// 整体平移，offset 为正时字幕延后
+export function shiftSubtitles(
+  subtitles: Subtitle[],
+  offset: number,
+  range?: SubtitleRange,
+): Subtitle[] {
+  return mapSubtitleTimes(subtitles, (seconds) => seconds + offset, range)
+}
+
+/**
+ * 两点线性校准：根据两条字幕的原时间和实际时间求出 t' = scale * t + offset，
+ * 可以同时修正整体偏移和帧率不同导致的逐渐漂移。
+ */
+export function linearResync(
+  subtitles: Subtitle[],
+  pointA: SyncPoint,
+  pointB: SyncPoint,
+): Subtitle[] {
+  if (pointA.original === pointB.original) {
+    throw new Error("Sync points must refer to different times")
+  }
+  const scale =
+    (pointB.target - pointA.target) / (pointB.original - pointA.original)
+  const offset = pointA.target - scale * pointA.original
+  return mapSubtitleTimes(subtitles, (seconds) => scale * seconds + offset)
+}
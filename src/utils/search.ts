@@ -0,0 +1,108 @@
+import type { LibraryTracks, Subtitle } from "../types"
+import { timeToSeconds } from "./time"
+
+export interface SearchOptions {
+  query: string
+  isRegex: boolean
+  isCaseSensitive: boolean
+}
+
+export interface TextSegment {
+  text: string
+  isMatch: boolean
+}
+
+const escapeRegExp = (text: string) =>
+  text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+
+// 正则写错时返回错误信息，而不是抛出异常
+export const createSearchRegExp = ({
+  query,
+  isRegex,
+  isCaseSensitive,
+}: SearchOptions): { regex: RegExp | null; error?: string } => {
+  if (!query) return { regex: null }
+  try {
+    return {
+      regex: new RegExp(
+        isRegex ? query : escapeRegExp(query),
+        isCaseSensitive ? "g" : "gi",
+      ),
+    }
+  } catch (error) {
+    return { regex: null, error: (error as Error).message }
+  }
+}
+
+// 忽略空匹配（例如 /a*/），否则会把每个位置都当成命中
+const getMatches = (text: string, regex: RegExp) =>
+  [...text.matchAll(regex)].filter((match) => match[0].length > 0)
+
+export const countMatches = (text: string, regex: RegExp) =>
+  getMatches(text, regex).length
+
+// 把文本拆成命中与未命中的片段，用于高亮显示
+export const splitByMatches = (text: string, regex: RegExp): TextSegment[] => {
+  const segments: TextSegment[] = []
+  let lastIndex = 0
+  for (const match of getMatches(text, regex)) {
+    const start = match.index ?? 0
+    if (start > lastIndex) {
+      segments.push({ text: text.slice(lastIndex, start), isMatch: false })
+    }
+    segments.push({ text: match[0], isMatch: true })
+    lastIndex = start + match[0].length
+  }
+  if (lastIndex < text.length) {
+    segments.push({ text: text.slice(lastIndex), isMatch: false })
+  }
+  return segments
+}
+
+// 从当前字幕出发找下一个（或上一个）命中的字幕，到头后回绕
+export const findNextHit = (
+  hits: number[],
+  currentIndex: number,
+  isBackward: boolean,
+): number | undefined =>
+  isBackward
+    ? ([...hits].reverse().find((index) => index < currentIndex) ??
+      hits[hits.length - 1])
+    : (hits.find((index) => index > currentIndex) ?? hits[0])
+
+export interface LibrarySearchHit {
+  trackId: string
+  trackLabel: string
+  subtitle: Subtitle
+}
+
+export interface LibrarySearchGroup {
+  videoKey: string
+  hits: LibrarySearchHit[]
+}
+
+// 在所有视频的所有轨道中搜索，按视频分组、按时间排序
+export const searchLibrary = (
+  library: LibraryTracks[],
+  regex: RegExp,
+): LibrarySearchGroup[] =>
+  library
+    .map(({ videoKey, tracks }) => ({
+      videoKey,
+      hits: tracks
+        .flatMap((track) =>
+          track.subtitles
+            .filter((subtitle) => countMatches(subtitle.text, regex) > 0)
+            .map((subtitle) => ({
+              trackId: track.id,
+              trackLabel: track.label,
+              subtitle,
+            })),
+        )
+        .sort(
+          (a, b) =>
+            timeToSeconds(a.subtitle.startTime) -
+            timeToSeconds(b.subtitle.startTime),
+        ),
+    }))
+    .filter((group) => group.hits.length > 0)
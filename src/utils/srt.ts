@@ -0,0 +1,152 @@
+import type {
+  Subtitle,
+  SubtitleParseResult,
+  SubtitleParseWarning,
+} from "../types"
+import {
+  hasValidTiming,
+  normalizeTimeStr,
+  secondsToTimeStr,
+  timeToSeconds,
+} from "./time"
+
+const TIMING_LINE_REGEX = /^\s*(\S+)\s*-->\s*(\S+)(?:\s.*)?$/
+const STRICT_TIME_REGEX = /^\d{2}:\d{2}:\d{2},\d{3}$/
+const INDEX_LINE_REGEX = /^\s*\d+\s*$/
+
+// 统一换行符并去掉 UTF-8 BOM
+const normalizeSubtitleContent = (content: string) =>
+  content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n")
+
+/**
+ * 容错的 SRT 解析器：以时间轴行作为 cue 的锚点，而不是依赖空行分块，
+ * 因此可以处理缺少序号、多余空行、cue 内部空行等情况。
+ * 所有被修复或跳过的 cue 都会记录在 warnings 中。
+ */
+export function parseSRT(srtContent: string): SubtitleParseResult {
+  const subtitles: Subtitle[] = []
+  const warnings: SubtitleParseWarning[] = []
+  const lines = normalizeSubtitleContent(srtContent).split("\n")
+
+  const timingLineIndexes = lines.flatMap((line, index) =>
+    line.includes("-->") ? [index] : [],
+  )
+
+  const firstTimingIndex = timingLineIndexes[0] ?? lines.length
+  const leadingLines = lines
+    .slice(0, firstTimingIndex)
+    .map((line, index) => ({ line, index }))
+    .filter(
+      ({ line, index }) =>
+        line.trim() !== "" &&
+        !(index === firstTimingIndex - 1 && INDEX_LINE_REGEX.test(line)),
+    )
+  if (timingLineIndexes.length > 0 && leadingLines.length > 0) {
+    warnings.push({
+      line: leadingLines[0].index + 1,
+      message: "文件开头存在无法识别的内容，已忽略",
+    })
+  }
+
+  timingLineIndexes.forEach((timingIndex, i) => {
+    const lineNumber = timingIndex + 1
+    const nextTimingIndex = timingLineIndexes[i + 1] ?? lines.length
+
+    // 下一个时间轴行之前紧挨着的数字行是下一个 cue 的序号
+    let textEnd = nextTimingIndex
+    if (
+      textEnd < lines.length &&
+      textEnd - 1 > timingIndex &&
+      INDEX_LINE_REGEX.test(lines[textEnd - 1])
+    ) {
+      textEnd -= 1
+    }
+    const textLines = lines.slice(timingIndex + 1, textEnd)
+    while (
+      textLines.length > 0 &&
+      textLines[textLines.length - 1].trim() === ""
+    ) {
+      textLines.pop()
+    }
+    while (textLines.length > 0 && textLines[0].trim() === "") {
+      textLines.shift()
+    }
+
+    const previousLine = lines[timingIndex - 1]
+    if (previousLine === undefined || !INDEX_LINE_REGEX.test(previousLine)) {
+      warnings.push({ line: lineNumber, message: "缺少序号行，已自动编号" })
+    }
+
+    const match = lines[timingIndex].match(TIMING_LINE_REGEX)
+    const startSeconds = match ? timeToSeconds(match[1]) : Number.NaN
+    const endSeconds = match ? timeToSeconds(match[2]) : Number.NaN
+    if (Number.isNaN(startSeconds) || Number.isNaN(endSeconds)) {
+      warnings.push({ line: lineNumber, message: "时间轴格式无法识别，已跳过" })
+      return
+    }
+    if (endSeconds < startSeconds) {
+      warnings.push({
+        line: lineNumber,
+        message: "结束时间早于开始时间，已跳过",
+      })
+      return
+    }
+    if (
+      !STRICT_TIME_REGEX.test(match![1]) ||
+      !STRICT_TIME_REGEX.test(match![2])
+    ) {
+      warnings.push({ line: lineNumber, message: "时间格式不规范，已修正" })
+    }
+
+    if (textLines.some((line) => line.trim() === "")) {
+      warnings.push({ line: lineNumber, message: "字幕内容中包含空行，已合并" })
+    }
+    const text = textLines.filter((line) => line.trim() !== "").join("\n")
+    if (!text) {
+      warnings.push({ line: lineNumber, message: "字幕内容为空，已跳过" })
+      return
+    }
+
+    subtitles.push({
+      id: subtitles.length + 1,
+      startTime: secondsToTimeStr(startSeconds),
+      endTime: secondsToTimeStr(endSeconds),
+      text,
+    })
+  })
+
+  if (timingLineIndexes.length === 0 && lines.some((line) => line.trim())) {
+    warnings.push({ line: 1, message: "未找到任何时间轴行" })
+  }
+
+  return { subtitles, warnings }
+}
+
+export interface SerializeSRTOptions {
+  // Windows 下部分播放器/字幕工具要求 CRLF 换行
+  crlf?: boolean
+  // SRT 没有注释语法，笔记作为额外的行附在字幕文本后面
+  getNote?: (subtitle: Subtitle) => string | undefined
+}
+
+export function serializeSRT(
+  subtitles: Subtitle[],
+  { crlf = false, getNote }: SerializeSRTOptions = {},
+): string {
+  // 时间无法解析的字幕跳过，其余字幕连续编号
+  const blocks = subtitles.filter(hasValidTiming).map((subtitle, index) => {
+    const note = getNote?.(subtitle)?.trim()
+    const text = note ? `${subtitle.text}\n${note}` : subtitle.text
+    return [
+      index + 1,
+      `${normalizeTimeStr(subtitle.startTime)} --> ${normalizeTimeStr(subtitle.endTime)}`,
+      // 字幕内容中的空行会被当成块分隔符，导出时去掉
+      text
+        .replace(/\r\n?/g, "\n")
+        .replace(/\n\s*\n/g, "\n")
+        .trim(),
+    ].join("\n")
+  })
+  const content = `${blocks.join("\n\n")}\n`
+  return crlf ? content.replace(/\n/g, "\r\n") : content
+}
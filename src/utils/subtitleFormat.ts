@@ -0,0 +1,39 @@
+import type { SubtitleParseResult } from "../types"
+import { type AssImportOptions, isASS, parseASS } from "./ass"
+import { parseSRT } from "./srt"
+import { isVTT, parseVTT } from "./vtt"
+
+export type SubtitleFormat = "srt" | "vtt" | "ass"
+
+// ASS/SSA 只支持导入
+export type SubtitleExportFormat = Exclude<SubtitleFormat, "ass">
+
+export const SUBTITLE_FILE_ACCEPT = ".srt,.vtt,.ass,.ssa"
+
+// 优先根据内容判断（WEBVTT 文件头 / ASS 区块），其次根据扩展名
+export function detectSubtitleFormat(
+  fileName: string,
+  content: string,
+): SubtitleFormat {
+  if (isVTT(content)) return "vtt"
+  if (isASS(content)) return "ass"
+  const lowerName = fileName.toLowerCase()
+  if (lowerName.endsWith(".vtt")) return "vtt"
+  if (lowerName.endsWith(".ass") || lowerName.endsWith(".ssa")) return "ass"
+  return "srt"
+}
+
+export function parseSubtitleFile(
+  fileName: string,
+  content: string,
+  assOptions?: AssImportOptions,
+): SubtitleParseResult {
+  const format = detectSubtitleFormat(fileName, content)
+  if (format === "vtt") {
+    return { subtitles: parseVTT(content), warnings: [] }
+  }
+  if (format === "ass") {
+    return parseASS(content, assOptions)
+  }
+  return parseSRT(content)
+}
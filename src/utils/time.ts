@@ -0,0 +1,41 @@
+import type { Subtitle } from "../types"
+
+// 字幕内部统一使用 SRT 风格的时间字符串：HH:MM:SS,mmm
+// 兼容省略小时、使用 "." 作为毫秒分隔符以及毫秒位数不足的写法
+const TIME_REGEX = /^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/
+
+// 无法解析时返回 NaN
+export const timeToSeconds = (timeStr: string): number => {
+  const match = timeStr.trim().match(TIME_REGEX)
+  if (!match) return Number.NaN
+  const [, hours = "0", minutes, secs, ms = "0"] = match
+  return (
+    Number.parseInt(hours) * 3600 +
+    Number.parseInt(minutes) * 60 +
+    Number.parseInt(secs) +
+    Number.parseInt(ms.padEnd(3, "0")) / 1000
+  )
+}
+
+export const secondsToTimeStr = (seconds: number): string => {
+  // 先取整到毫秒，避免 1.001 % 1 之类的浮点误差
+  const totalMs = Math.max(0, Math.round(seconds * 1000))
+  const hours = Math.floor(totalMs / 3600000)
+  const minutes = Math.floor((totalMs % 3600000) / 60000)
+  const secs = Math.floor((totalMs % 60000) / 1000)
+  const ms = totalMs % 1000
+
+  return `${hours.toString().padStart(2, "0")}:${minutes.toString().padStart(2, "0")}:${secs.toString().padStart(2, "0")},${ms.toString().padStart(3, "0")}`
+}
+
+// 开始、结束时间都能解析的字幕才能导出，否则会写出 NaN:NaN:NaN,NaN
+export const hasValidTiming = ({
+  startTime,
+  endTime,
+}: Pick<Subtitle, "startTime" | "endTime">) =>
+  !Number.isNaN(timeToSeconds(startTime)) &&
+  !Number.isNaN(timeToSeconds(endTime))
+
+// 将可能不规范的时间字符串（如 0:1:2,5）整理为 HH:MM:SS,mmm
+export const normalizeTimeStr = (timeStr: string): string =>
+  secondsToTimeStr(timeToSeconds(timeStr))
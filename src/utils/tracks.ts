@@ -0,0 +1,13 @@
+import type { Subtitle, SubtitleTrack } from "../types"
+
+// 旧版本每个视频只保存一条字幕，读取时转换为这条固定 id 的轨道
+export const LEGACY_TRACK_ID = "default"
+
+export const createSubtitleTrack = (
+  label: string,
+  subtitles: Subtitle[],
+): SubtitleTrack => ({
+  id: crypto.randomUUID(),
+  label,
+  subtitles,
+})
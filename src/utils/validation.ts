@@ -0,0 +1,101 @@
+import type { Subtitle } from "../types"
+import { secondsToTimeStr, timeToSeconds } from "./time"
+
+const STRICT_TIME_REGEX = /^\d{2}:\d{2}:\d{2},\d{3}$/
+
+// 自动修正时，结束时间不合法的字幕默认持续的时长
+const DEFAULT_CUE_DURATION = 1
+
+export interface TimingIssue {
+  message: string
+  // 阻塞保存的错误；重叠等问题只提示不阻塞
+  isBlocking: boolean
+}
+
+export interface SubtitleTimingIssues {
+  startTime?: TimingIssue
+  endTime?: TimingIssue
+}
+
+interface Neighbours {
+  previous?: Subtitle
+  next?: Subtitle
+}
+
+export const isValidTimeStr = (timeStr: string) =>
+  STRICT_TIME_REGEX.test(timeStr.trim())
+
+export function validateSubtitleTiming(
+  subtitle: Subtitle,
+  { previous, next }: Neighbours,
+): SubtitleTimingIssues {
+  const issues: SubtitleTimingIssues = {}
+  const formatIssue: TimingIssue = {
+    message: "格式应为 HH:MM:SS,mmm",
+    isBlocking: true,
+  }
+  if (!isValidTimeStr(subtitle.startTime)) {
+    issues.startTime = formatIssue
+  }
+  if (!isValidTimeStr(subtitle.endTime)) {
+    issues.endTime = formatIssue
+  }
+  if (issues.startTime || issues.endTime) return issues
+
+  const start = timeToSeconds(subtitle.startTime)
+  const end = timeToSeconds(subtitle.endTime)
+  if (end <= start) {
+    issues.endTime = { message: "结束时间必须晚于开始时间", isBlocking: true }
+  }
+  if (previous && start < timeToSeconds(previous.endTime)) {
+    issues.startTime = {
+      message: `与上一条字幕重叠（上一条结束于 ${previous.endTime}）`,
+      isBlocking: false,
+    }
+  }
+  if (!issues.endTime && next && end > timeToSeconds(next.startTime)) {
+    issues.endTime = {
+      message: `与下一条字幕重叠（下一条开始于 ${next.startTime}）`,
+      isBlocking: false,
+    }
+  }
+  return issues
+}
+
+export const hasBlockingIssue = (issues: SubtitleTimingIssues) =>
+  Boolean(issues.startTime?.isBlocking || issues.endTime?.isBlocking)
+
+/**
+ * 尽量修正时间：规范化宽松的时间写法，避免与前后字幕重叠，
+ * 并保证结束时间晚于开始时间。无法解析的时间保持原样。
+ */
+export function autoFixSubtitleTiming(
+  subtitle: Subtitle,
+  { previous, next }: Neighbours,
+): Subtitle {
+  let start = timeToSeconds(subtitle.startTime)
+  let end = timeToSeconds(subtitle.endTime)
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    return subtitle
+  }
+
+  const previousEnd = previous ? timeToSeconds(previous.endTime) : 0
+  const nextStart = next
+    ? timeToSeconds(next.startTime)
+    : Number.POSITIVE_INFINITY
+  start = Math.max(start, previousEnd)
+  if (end <= start) {
+    end = start + DEFAULT_CUE_DURATION
+  }
+  end = Math.min(end, nextStart)
+  // 前后字幕之间没有空隙时无法避免重叠，只保证结束晚于开始，重叠只提示不阻塞
+  if (end <= start) {
+    end = start + DEFAULT_CUE_DURATION
+  }
+
+  return {
+    ...subtitle,
+    startTime: secondsToTimeStr(start),
+    endTime: secondsToTimeStr(end),
+  }
+}
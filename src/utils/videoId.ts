@@ -0,0 +1,22 @@
+// 每段采样的字节数
+const SAMPLE_SIZE = 1024 * 1024
+
+/**
+ * 根据文件内容生成视频的唯一标识：对文件大小以及开头、中间、结尾
+ * 各 1MB 的内容做 SHA-256。不读取整个文件，几 GB 的视频也能很快算完；
+ * 同一个文件改名后标识不变，同名的不同文件标识不同。
+ */
+export const computeVideoId = async (file: Blob): Promise<string> => {
+  const middle = Math.max(0, Math.floor((file.size - SAMPLE_SIZE) / 2))
+  const samples = [
+    file.slice(0, SAMPLE_SIZE),
+    file.slice(middle, middle + SAMPLE_SIZE),
+    file.slice(Math.max(0, file.size - SAMPLE_SIZE)),
+  ]
+  const data = await new Blob([String(file.size), ...samples]).arrayBuffer()
+  const digest = await crypto.subtle.digest("SHA-256", data)
+  const hex = Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("")
+  return `video-${hex.slice(0, 32)}`
+}
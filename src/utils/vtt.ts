@@ -0,0 +1,101 @@
+import type { Subtitle } from "../types"
+import { hasValidTiming, normalizeTimeStr } from "./time"
+
+// 例如 "00:01:02.500 --> 00:01:04.000 align:start position:0%"
+// 小时部分可省略，行尾可能带有 cue settings
+const TIMING_LINE_REGEX =
+  /^((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})\s+-->\s+((?:\d+:)?\d{1,2}:\d{2}[.,]\d{1,3})(?:\s+.*)?$/
+
+const HTML_ENTITIES: Record<string, string> = {
+  "&amp;": "&",
+  "&lt;": "<",
+  "&gt;": ">",
+  "&nbsp;": " ",
+  "&lrm;": "\u200E",
+  "&rlm;": "\u200F",
+}
+
+// 将 VTT 时间（[HH:]MM:SS.mmm）转换为内部使用的 HH:MM:SS,mmm
+const normalizeVTTTime = (time: string): string => {
+  const [clock, fraction = "0"] = time.split(/[.,]/)
+  const parts = clock.split(":")
+  while (parts.length < 3) {
+    parts.unshift("0")
+  }
+  const [hours, minutes, seconds] = parts
+  return `${hours.padStart(2, "0")}:${minutes.padStart(2, "0")}:${seconds.padStart(2, "0")},${fraction.padEnd(3, "0")}`
+}
+
+// 去掉 <c>、<v Speaker>、<00:00:01.000> 等 cue 内部标签并还原实体
+const cleanCueText = (text: string): string =>
+  text
+    .replace(/<[^>]*>/g, "")
+    .replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, (entity) => HTML_ENTITIES[entity])
+
+export function isVTT(content: string): boolean {
+  return /^\uFEFF?WEBVTT(?:[ \t].*)?(?:\r?\n|$)/.test(content)
+}
+
+export function parseVTT(vttContent: string): Subtitle[] {
+  const subtitles: Subtitle[] = []
+  const blocks = vttContent
+    .replace(/^\uFEFF/, "")
+    .replace(/\r\n?/g, "\n")
+    .trim()
+    .split(/\n[ \t]*\n/)
+
+  for (const block of blocks) {
+    const lines = block.split("\n").filter((line) => line.trim() !== "")
+    if (lines.length === 0) continue
+
+    // 跳过文件头以及 NOTE / STYLE / REGION 块
+    if (/^(WEBVTT|NOTE|STYLE|REGION)(?:\s|$)/.test(lines[0])) continue
+
+    // 第一行不是时间轴时，它是 cue identifier
+    const timingIndex = lines[0].includes("-->") ? 0 : 1
+    const match = lines[timingIndex]?.trim().match(TIMING_LINE_REGEX)
+    if (!match) continue
+
+    const text = cleanCueText(lines.slice(timingIndex + 1).join("\n")).trim()
+    if (!text) continue
+
+    subtitles.push({
+      id: subtitles.length + 1,
+      startTime: normalizeVTTTime(match[1]),
+      endTime: normalizeVTTTime(match[2]),
+      text,
+    })
+  }
+
+  return subtitles
+}
+
+const toVTTTime = (time: string) => normalizeTimeStr(time).replace(",", ".")
+
+export interface SerializeVTTOptions {
+  // 笔记写成 cue 前的 NOTE 块，播放器会忽略
+  getNote?: (subtitle: Subtitle) => string | undefined
+}
+
+// cue 文本和 NOTE 块内都不能有空行（会被当成块分隔符），也不能出现 "-->"
+const toBlockText = (text: string) =>
+  text
+    .replace(/\r\n?/g, "\n")
+    .replace(/\n\s*\n/g, "\n")
+    .replace(/-->/g, "->")
+    .trim()
+
+const toNoteBlock = (note: string) => `NOTE\n${toBlockText(note)}`
+
+export function serializeVTT(
+  subtitles: Subtitle[],
+  { getNote }: SerializeVTTOptions = {},
+): string {
+  // 时间无法解析的字幕跳过，其余字幕连续编号
+  const cues = subtitles.filter(hasValidTiming).map((subtitle, index) => {
+    const cue = `${index + 1}\n${toVTTTime(subtitle.startTime)} --> ${toVTTTime(subtitle.endTime)}\n${toBlockText(subtitle.text)}`
+    const note = getNote?.(subtitle)?.trim()
+    return note ? `${toNoteBlock(note)}\n\n${cue}` : cue
+  })
+  return `WEBVTT\n\n${cues.join("\n\n")}\n`
+}
@@ -0,0 +1,85 @@
+// 中日文没有空格分词，按单字比较；其他文字按单词比较
+const WORD_REGEX =
+  /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}]|[\p{L}\p{N}]+(?:['’][\p{L}\p{N}]+)*/gu
+
+export interface WordToken {
+  // 原文中的写法，用于展示
+  text: string
+  // 忽略大小写和标点后的写法，用于比较
+  normalized: string
+  // 在原文中的位置
+  index: number
+}
+
+export interface WordDiffToken {
+  text: string
+  status: "correct" | "missing" | "extra"
+}
+
+export interface WordDiffResult {
+  tokens: WordDiffToken[]
+  // 答对的词数 / 原文词数，0 ~ 1
+  accuracy: number
+}
+
+// 去掉撇号，使 don't 与 dont 视为同一个词
+export const normalizeWord = (word: string) =>
+  word.trim().toLowerCase().replace(/['’]/g, "")
+
+export function tokenizeWords(text: string): WordToken[] {
+  return [...text.matchAll(WORD_REGEX)].map((match) => ({
+    text: match[0],
+    normalized: normalizeWord(match[0]),
+    index: match.index ?? 0,
+  }))
+}
+
+/**
+ * 基于最长公共子序列逐词比较原文与用户输入（忽略大小写和标点）。
+ * 原文中没有被匹配的词标记为 missing，输入中多出的词标记为 extra。
+ */
+export function diffWords(expected: string, actual: string): WordDiffResult {
+  const expectedWords = tokenizeWords(expected)
+  const actualWords = tokenizeWords(actual)
+  const rows = expectedWords.length
+  const cols = actualWords.length
+
+  // lcs[i][j] = expected[i..] 与 actual[j..] 的最长公共子序列长度
+  const lcs = Array.from({ length: rows + 1 }, () =>
+    new Array<number>(cols + 1).fill(0),
+  )
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lcs[i][j] =
+        expectedWords[i].normalized === actualWords[j].normalized
+          ? lcs[i + 1][j + 1] + 1
+          : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const tokens: WordDiffToken[] = []
+  let i = 0
+  let j = 0
+  while (i < rows || j < cols) {
+    if (
+      i < rows &&
+      j < cols &&
+      expectedWords[i].normalized === actualWords[j].normalized
+    ) {
+      tokens.push({ text: expectedWords[i].text, status: "correct" })
+      i++
+      j++
+    } else if (j < cols && (i >= rows || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      tokens.push({ text: actualWords[j].text, status: "extra" })
+      j++
+    } else {
+      tokens.push({ text: expectedWords[i].text, status: "missing" })
+      i++
+    }
+  }
+
+  return {
+    tokens,
+    accuracy: rows === 0 ? 1 : lcs[0][0] / rows,
+  }
+}
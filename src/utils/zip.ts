@@ -0,0 +1,74 @@
+// 最简单的 ZIP 打包（只存储、不压缩），用于一次导出多个文件
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array
+}
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n
+  for (let k = 0; k < 8; k++) {
+    c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+  }
+  return c >>> 0
+})
+
+const crc32 = (data: Uint8Array) => {
+  let crc = 0xffffffff
+  for (const byte of data) {
+    crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+export const createZip = (entries: ZipEntry[]): Blob => {
+  const encoder = new TextEncoder()
+  const parts: Uint8Array[] = []
+  const centralDirectory: Uint8Array[] = []
+  let offset = 0
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name)
+    const crc = crc32(entry.data)
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, 0x04034b50, true)
+    local.setUint16(4, 20, true)
+    // 第 11 位：文件名使用 UTF-8
+    local.setUint16(6, 0x0800, true)
+    local.setUint32(14, crc, true)
+    local.setUint32(18, entry.data.length, true)
+    local.setUint32(22, entry.data.length, true)
+    local.setUint16(26, name.length, true)
+    parts.push(new Uint8Array(local.buffer), name, entry.data)
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, 0x02014b50, true)
+    central.setUint16(4, 20, true)
+    central.setUint16(6, 20, true)
+    central.setUint16(8, 0x0800, true)
+    central.setUint32(16, crc, true)
+    central.setUint32(20, entry.data.length, true)
+    central.setUint32(24, entry.data.length, true)
+    central.setUint16(28, name.length, true)
+    central.setUint32(42, offset, true)
+    centralDirectory.push(new Uint8Array(central.buffer), name)
+
+    offset += 30 + name.length + entry.data.length
+  }
+
+  const centralSize = centralDirectory.reduce(
+    (size, part) => size + part.length,
+    0,
+  )
+  const end = new DataView(new ArrayBuffer(22))
+  end.setUint32(0, 0x06054b50, true)
+  end.setUint16(8, entries.length, true)
+  end.setUint16(10, entries.length, true)
+  end.setUint32(12, centralSize, true)
+  end.setUint32(16, offset, true)
+
+  return new Blob([...parts, ...centralDirectory, new Uint8Array(end.buffer)], {
+    type: "application/zip",
+  })
+}